@@ -0,0 +1,141 @@
+/**
+ * dailysync CLI
+ *
+ * Usage: yarn dailysync <command> [options]
+ *        yarn dailysync <command> --help
+ *
+ * Exit codes:
+ *   0  success
+ *   1  the command failed (also when a sync reported failed activities, the configuration is invalid
+ *      or the command failed for one of the profiles)
+ *   2  invalid command line
+ */
+
+import { Command, formatHelp, GLOBAL_OPTIONS } from './commands/command';
+import { syncCommand } from './commands/sync';
+import { migrateCommand } from './commands/migrate';
+import { downloadCommand } from './commands/download';
+import { insightsCommand } from './commands/insights';
+import { rqCommand } from './commands/rq';
+import { sheetsCommand } from './commands/sheets';
+import { sessionCommand } from './commands/session';
+import { retryCommand } from './commands/retry';
+import { archiveCommand } from './commands/archive';
+import { exportCommand } from './commands/export';
+import { importCommand } from './commands/import';
+import { stravaCommand } from './commands/strava';
+import { wellnessCommand } from './commands/wellness';
+import { ParsedArgs, parseArgs, UsageError } from './utils/args';
+import { checkRequiredConfig, ConfigError, getProfileNames, loadConfig } from './utils/config';
+import { waitForWebhookDeliveries } from './utils/webhook';
+
+const core = require('@actions/core');
+
+const EXIT_USAGE = 2;
+
+const rootCommand: Command = {
+    name: 'dailysync',
+    summary: 'Migrate, gather, synchronize your Garmin fitness data between China server and Global server.',
+    subcommands: [
+        syncCommand,
+        migrateCommand,
+        downloadCommand,
+        insightsCommand,
+        rqCommand,
+        sheetsCommand,
+        sessionCommand,
+        retryCommand,
+        archiveCommand,
+        exportCommand,
+        importCommand,
+        stravaCommand,
+        wellnessCommand,
+    ],
+};
+
+/**
+ * Run a command for one profile
+ * @throws ConfigError if the profile lacks configuration the command requires
+ */
+const runForProfile = async (command: Command, path: string[], args: ParsedArgs, profile?: string) => {
+    const config = loadConfig(args.options.config as string | undefined, profile);
+    checkRequiredConfig(config, command.requires?.(args.options) ?? [], path.join(' '));
+    try {
+        await command.run!(args);
+    } finally {
+        await waitForWebhookDeliveries();
+    }
+};
+
+/**
+ * Run a command for every profile, a failing profile does not stop the others
+ * @throws Error naming the failed profiles
+ */
+const runForAllProfiles = async (command: Command, path: string[], args: ParsedArgs) => {
+    const profiles = getProfileNames(args.options.config as string | undefined);
+    const failed: string[] = [];
+    for (const profile of profiles) {
+        console.log(`======== Profile: ${profile} ========`);
+        try {
+            await runForProfile(command, path, args, profile);
+        } catch (e) {
+            console.error(e instanceof ConfigError ? `Error: ${e.message}` : e);
+            failed.push(profile);
+        }
+    }
+    if (failed.length > 0) {
+        throw new Error(`${path.join(' ')} failed for ${failed.length} of ${profiles.length} profiles: ${failed.join(', ')}`);
+    }
+};
+
+const main = async (argv: string[]) => {
+    // Walk down the subcommands named at the start of argv
+    let command = rootCommand;
+    const path = [rootCommand.name];
+    let rest = argv;
+    try {
+        while (command.subcommands && rest.length > 0 && !rest[0].startsWith('-')) {
+            const subcommand = command.subcommands.find(c => c.name === rest[0]);
+            if (!subcommand) {
+                throw new UsageError(`Unknown command: ${path.concat(rest[0]).join(' ')}`);
+            }
+            command = subcommand;
+            path.push(subcommand.name);
+            rest = rest.slice(1);
+        }
+
+        const args = parseArgs(rest, [...(command.options ?? []), ...GLOBAL_OPTIONS]);
+        if (args.options.help) {
+            console.log(formatHelp(command, path));
+            return;
+        }
+        if (args.positionals.length > 0 && !command.usage) {
+            throw new UsageError(`Unexpected argument: ${args.positionals[0]}`);
+        }
+        if (!command.run) {
+            throw new UsageError(`Missing command for ${path.join(' ')}`);
+        }
+        if (args.options['all-profiles']) {
+            if (args.options.profile) {
+                throw new UsageError('--profile and --all-profiles can not be used together');
+            }
+            await runForAllProfiles(command, path, args);
+        } else {
+            await runForProfile(command, path, args, args.options.profile as string | undefined);
+        }
+    } catch (e) {
+        if (e instanceof UsageError) {
+            console.error(`Error: ${e.message}`);
+            console.error(`Run '${path.join(' ')} --help' for usage.`);
+            process.exit(EXIT_USAGE);
+        }
+        throw e;
+    }
+};
+
+main(process.argv.slice(2)).catch((e) => {
+    // configuration problems are already explained by the message, the stack trace adds nothing
+    console.error(e instanceof ConfigError ? `Error: ${e.message}` : e);
+    core.setFailed(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+});
@@ -0,0 +1,125 @@
+import { Command } from './command';
+import { getArchiveEntries, initActivityArchiveTable, initDB } from '../utils/sqlite';
+import { getRetentionPolicy, pruneArchive, verifyArchive } from '../utils/archive';
+import { UsageError } from '../utils/args';
+import { GarminRegion } from '../utils/type';
+import _ from 'lodash';
+
+/**
+ * Downloaded activity files are archived by start time in <download dir>/archive/YYYY/MM,
+ * files with the same content are stored once.
+ */
+
+const formatSize = (bytes: number): string => {
+    if (bytes >= 1024 ** 3) {
+        return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+    }
+    if (bytes >= 1024 ** 2) {
+        return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+    }
+    return `${(bytes / 1024).toFixed(1)} KB`;
+};
+
+// files shared by several activities count once
+const getStoredSize = (entries: { filePath: string; size: number }[]): number => _.sumBy(_.uniqBy(entries, 'filePath'), 'size');
+
+const listCommand: Command = {
+    name: 'list',
+    summary: 'List archived activity files of the profile, newest first',
+    options: [
+        { name: 'region', type: 'string', choices: ['cn', 'global'], placeholder: '<cn|global>', description: 'Only activities of this region' },
+        { name: 'sport', type: 'string', placeholder: '<typeKey>', description: 'Only this activity type, e.g. running' },
+        { name: 'since', type: 'date', placeholder: '<YYYY-MM-DD>', description: 'Only activities started on or after this date' },
+        { name: 'until', type: 'date', placeholder: '<YYYY-MM-DD>', description: 'Only activities started on or before this date' },
+        { name: 'count', alias: 'n', type: 'number', placeholder: '<N>', description: 'Show at most N activities' },
+    ],
+    examples: [
+        'dailysync archive list -n 20',
+        'dailysync archive list --sport running --since 2024-01-01',
+    ],
+    run: async ({ options }) => {
+        await initDB();
+        await initActivityArchiveTable();
+        const filter = {
+            region: options.region ? String(options.region).toUpperCase() as GarminRegion : undefined,
+            sport: options.sport as string | undefined,
+            since: options.since as string | undefined,
+            until: options.until as string | undefined,
+        };
+        const entries = await getArchiveEntries(filter);
+        const shown = options.count ? entries.slice(0, options.count as number) : entries;
+        console.log('========================================');
+        console.log(`Archive: ${entries.length} activities, ${formatSize(getStoredSize(entries))} stored`);
+        console.log('========================================');
+        for (const entry of shown) {
+            console.log(`${entry.startTime ?? '-'}  ${entry.region.padEnd(6)} ${entry.activityId}  ${(entry.sport ?? '-').padEnd(16)} ${formatSize(entry.size).padStart(9)}  ${entry.filePath}`);
+        }
+        if (shown.length < entries.length) {
+            console.log(`... ${entries.length - shown.length} more`);
+        }
+        console.log('========================================');
+    },
+};
+
+const verifyCommand: Command = {
+    name: 'verify',
+    summary: 'Check archived files against the index and find files no activity uses',
+    options: [
+        { name: 'fix', type: 'boolean', description: 'Delete index entries of missing or changed files, and unused files' },
+    ],
+    run: async ({ options }) => {
+        await initDB();
+        const fix = Boolean(options.fix);
+        const problems = await verifyArchive(fix);
+        for (const problem of problems) {
+            const activity = problem.entry ? ` (${problem.entry.region} ${problem.entry.activityId})` : '';
+            console.log(`${problem.type.padEnd(13)} ${problem.filePath}${activity}`);
+        }
+        if (problems.length === 0) {
+            console.log('✅ Archive is consistent');
+            return;
+        }
+        if (fix) {
+            console.log(`Fixed ${problems.length} problems, changed or missing activities are downloaded again on the next run`);
+            return;
+        }
+        throw new Error(`${problems.length} archive problems found, run 'dailysync archive verify --fix'`);
+    },
+};
+
+const pruneCommand: Command = {
+    name: 'prune',
+    summary: 'Delete archived files by the retention policy, oldest downloads first',
+    options: [
+        { name: 'days', type: 'number', placeholder: '<N>', description: 'Keep files downloaded in the last N days (default: GARMIN_ARCHIVE_RETENTION_DAYS)' },
+        { name: 'max-gb', type: 'number', placeholder: '<N>', description: 'Keep the archive under N GB (default: GARMIN_ARCHIVE_MAX_GB)' },
+        { name: 'dry-run', type: 'boolean', description: 'Only list the files that would be deleted' },
+    ],
+    examples: [
+        'dailysync archive prune --days 90',
+        'dailysync archive prune --max-gb 2 --dry-run',
+    ],
+    run: async ({ options }) => {
+        const configured = getRetentionPolicy();
+        const policy = {
+            retentionDays: (options.days as number | undefined) ?? configured.retentionDays,
+            maxGb: (options['max-gb'] as number | undefined) ?? configured.maxGb,
+        };
+        if (!policy.retentionDays && !policy.maxGb) {
+            throw new UsageError('No retention policy, use --days / --max-gb or set GARMIN_ARCHIVE_RETENTION_DAYS / GARMIN_ARCHIVE_MAX_GB');
+        }
+        await initDB();
+        const dryRun = Boolean(options['dry-run']);
+        const result = await pruneArchive(policy, dryRun);
+        for (const filePath of result.deletedFiles) {
+            console.log(`${dryRun ? 'Would delete' : 'Deleted'} ${filePath}`);
+        }
+        console.log(`${dryRun ? 'Would delete' : 'Deleted'} ${result.deletedFiles.length} files of ${result.entries.length} activities, ${formatSize(result.freedBytes)}`);
+    },
+};
+
+export const archiveCommand: Command = {
+    name: 'archive',
+    summary: 'List, verify and prune the local archive of downloaded activity files',
+    subcommands: [listCommand, verifyCommand, pruneCommand],
+};
@@ -0,0 +1,47 @@
+import { formatOptions, OptionSpec, ParsedArgs, ParsedOptions } from '../utils/args';
+import { ConfigPath } from '../utils/config';
+
+/**
+ * A dailysync subcommand
+ * Commands either run themselves or group subcommands, e.g. `insights refresh`.
+ */
+export interface Command {
+    name: string;
+    summary: string;
+    // arguments after the command path, e.g. '[options]'
+    usage?: string;
+    options?: OptionSpec[];
+    examples?: string[];
+    subcommands?: Command[];
+    // configuration values the command can not run without, checked before run
+    requires?: (options: ParsedOptions) => ConfigPath[];
+    run?: (args: ParsedArgs) => Promise<void>;
+}
+
+export const HELP_OPTION: OptionSpec = { name: 'help', alias: 'h', type: 'boolean', description: 'Show this help message' };
+export const CONFIG_OPTION: OptionSpec = { name: 'config', type: 'string', placeholder: '<file>', description: 'Config file (default: DAILYSYNC_CONFIG or config.yaml / config.yml / config.json)' };
+export const PROFILE_OPTION: OptionSpec = { name: 'profile', alias: 'p', type: 'string', placeholder: '<name>', description: 'Profile of the config file to run for (default: DAILYSYNC_PROFILE or default)' };
+export const ALL_PROFILES_OPTION: OptionSpec = { name: 'all-profiles', type: 'boolean', description: 'Run once for every profile of the config file' };
+
+// options every command accepts
+export const GLOBAL_OPTIONS: OptionSpec[] = [CONFIG_OPTION, PROFILE_OPTION, ALL_PROFILES_OPTION, HELP_OPTION];
+
+/**
+ * @param path command names from the root, e.g. ['dailysync', 'insights', 'refresh']
+ */
+export const formatHelp = (command: Command, path: string[]): string => {
+    const lines = [command.summary, '', 'Usage:'];
+    if (command.subcommands) {
+        lines.push(`  ${path.join(' ')} <command> [options]`, '', 'Commands:');
+        const width = Math.max(...command.subcommands.map(c => c.name.length)) + 3;
+        lines.push(...command.subcommands.map(c => `  ${c.name.padEnd(width)}${c.summary}`));
+        lines.push('', `Run '${path.join(' ')} <command> --help' for the options of a command.`);
+    } else {
+        lines.push(`  ${path.join(' ')} ${command.usage ?? '[options]'}`);
+    }
+    lines.push('', 'Options:', ...formatOptions([...(command.options ?? []), ...GLOBAL_OPTIONS]));
+    if (command.examples?.length) {
+        lines.push('', 'Examples:', ...command.examples.map(e => `  ${e}`));
+    }
+    return lines.join('\n');
+};
@@ -0,0 +1,26 @@
+import { Command } from './command';
+import { downloadAllGarminCN } from '../utils/garmin_cn';
+import { applyRetentionPolicy } from '../utils/archive';
+import { GARMIN_CN_ACCOUNT } from '../utils/config';
+
+export const downloadCommand: Command = {
+    name: 'download',
+    summary: 'Download original CN activity files and generate AI insights',
+    options: [
+        { name: 'count', alias: 'n', type: 'number', placeholder: '<N>', description: 'Number of activities from GARMIN_MIGRATE_START (default: 100)' },
+        { name: 'since', type: 'date', description: 'First activity date, instead of --count' },
+        { name: 'until', type: 'date', description: 'Last activity date' },
+    ],
+    examples: [
+        'dailysync download -n 50',
+        'dailysync download --since 2023-01-01',
+    ],
+    requires: () => GARMIN_CN_ACCOUNT,
+    run: async ({ options }) => {
+        await downloadAllGarminCN((options.count as number | undefined) ?? 100, {
+            since: options.since as string | undefined,
+            until: options.until as string | undefined,
+        });
+        await applyRetentionPolicy();
+    },
+};
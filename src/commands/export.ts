@@ -0,0 +1,58 @@
+import path from 'path';
+import { Command } from './command';
+import { getArchiveEntries, initActivityArchiveTable, initDB } from '../utils/sqlite';
+import { EXPORT_FORMATS, ExportFormat, exportArchivedActivity } from '../utils/activity_export';
+import { getDownloadDir } from '../utils/garmin_common';
+import { UsageError } from '../utils/args';
+import { GarminRegion } from '../utils/type';
+
+export const exportCommand: Command = {
+    name: 'export',
+    summary: 'Convert archived FIT activities to GPX or TCX',
+    options: [
+        { name: 'format', type: 'string', choices: EXPORT_FORMATS, placeholder: '<gpx|tcx>', description: 'Output format (default: gpx)' },
+        { name: 'id', type: 'string', placeholder: '<activityId>', description: 'Export one archived activity' },
+        { name: 'since', type: 'date', description: 'Export activities started on or after this date' },
+        { name: 'until', type: 'date', description: 'Export activities started on or before this date' },
+        { name: 'region', type: 'string', choices: ['cn', 'global'], placeholder: '<cn|global>', description: 'Only activities of this region' },
+        { name: 'out', type: 'string', placeholder: '<dir>', description: 'Output directory (default: <download dir>/export)' },
+    ],
+    examples: [
+        'dailysync export --id 123456789 --format tcx',
+        'dailysync export --since 2024-01-01 --until 2024-01-31',
+    ],
+    run: async ({ options }) => {
+        if (!options.id && !options.since && !options.until) {
+            throw new UsageError('Use --id, or --since / --until to select activities');
+        }
+        await initDB();
+        await initActivityArchiveTable();
+        const format = (options.format as ExportFormat | undefined) ?? 'gpx';
+        const outDir = (options.out as string | undefined) ?? path.join(getDownloadDir(), 'export');
+        const entries = await getArchiveEntries({
+            activityId: options.id as string | undefined,
+            region: options.region ? String(options.region).toUpperCase() as GarminRegion : undefined,
+            since: options.since as string | undefined,
+            until: options.until as string | undefined,
+        });
+        if (entries.length === 0) {
+            console.log(`No archived activities found, download them first, see 'dailysync archive list'`);
+            return;
+        }
+
+        let failed = 0;
+        for (const entry of entries) {
+            try {
+                const outFile = exportArchivedActivity(entry, format, outDir);
+                console.log(`✅ ${entry.region} ${entry.activityId} ${entry.startTime ?? ''} -> ${outFile}`);
+            } catch (error: any) {
+                failed++;
+                console.log(`❌ ${entry.region} ${entry.activityId}: ${error?.message ?? error}`);
+            }
+        }
+        console.log(`Exported ${entries.length - failed} of ${entries.length} activities to ${outDir}`);
+        if (failed > 0) {
+            throw new Error(`${failed} activities could not be exported`);
+        }
+    },
+};
@@ -0,0 +1,71 @@
+import fs from 'fs';
+import { Command } from './command';
+import { importActivityFolder, ImportFileResult } from '../utils/activity_import';
+import { getGaminCNClient } from '../utils/garmin_cn';
+import { getGaminGlobalClient } from '../utils/garmin_global';
+import { initDB } from '../utils/sqlite';
+import { GARMIN_CN_ACCOUNT, GARMIN_GLOBAL_ACCOUNT } from '../utils/config';
+import { ParsedOptions, UsageError } from '../utils/args';
+import { GarminRegion } from '../utils/type';
+
+const getDestRegion = (options: ParsedOptions): GarminRegion => options.to === 'global' ? 'GLOBAL' : 'CN';
+
+const printResults = (title: string, results: ImportFileResult[]) => {
+    if (results.length === 0) {
+        return;
+    }
+    console.log(`${title}:`);
+    results.forEach(r => console.log(`  ${r.filePath}${r.destActivityId ? ` -> ${r.destActivityId}` : ''}${r.message ? `: ${r.message}` : ''}`));
+};
+
+export const importCommand: Command = {
+    name: 'import',
+    summary: 'Upload a local folder of FIT, GPX and TCX files to a Garmin region',
+    usage: '[options] <dir>',
+    options: [
+        { name: 'to', type: 'string', choices: ['cn', 'global'], placeholder: '<cn|global>', description: 'Destination region' },
+        { name: 'dry-run', type: 'boolean', description: 'Only list the files that would be uploaded' },
+        { name: 'reset', type: 'boolean', description: 'Upload again files a previous import finished' },
+    ],
+    examples: [
+        'dailysync import --to global ./old_watch_export',
+        'dailysync import --to cn ./activities --dry-run',
+    ],
+    requires: options => getDestRegion(options) === 'GLOBAL' ? GARMIN_GLOBAL_ACCOUNT : GARMIN_CN_ACCOUNT,
+    run: async ({ options, positionals }) => {
+        const [dir] = positionals;
+        if (!options.to) {
+            throw new UsageError('Missing --to, the destination region');
+        }
+        if (!dir || !fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+            throw new UsageError(dir ? `Not a directory: ${dir}` : 'Missing the directory to import');
+        }
+        const destRegion = getDestRegion(options);
+        await initDB();
+        const client = destRegion === 'GLOBAL' ? await getGaminGlobalClient() : await getGaminCNClient();
+        const summary = await importActivityFolder(dir, destRegion, client, {
+            dryRun: Boolean(options['dry-run']),
+            reset: Boolean(options.reset),
+        });
+
+        const byStatus = (...statuses: string[]) => summary.results.filter(r => statuses.includes(r.status));
+        const failed = byStatus('FAILED', 'AUTH_FAILED', 'RATE_LIMITED');
+        console.log('========================================');
+        console.log(`Import into ${destRegion}: ${summary.files} files${options['dry-run'] ? ' (dry run)' : ''}`);
+        console.log('========================================');
+        printResults('Rejected', byStatus('REJECTED'));
+        printResults('Failed', failed);
+        console.log(`Imported:   ${byStatus('CREATED').length}`);
+        console.log(`Duplicates: ${byStatus('DUPLICATE').length}`);
+        console.log(`Rejected:   ${byStatus('REJECTED').length}`);
+        console.log(`Failed:     ${failed.length}`);
+        console.log(`Skipped:    ${summary.skipped} (imported before or same content as another file)`);
+        console.log('========================================');
+        if (summary.stoppedAt) {
+            throw new Error(`Import stopped (${summary.stoppedAt}), run it again to continue`);
+        }
+        if (failed.length > 0) {
+            throw new Error(`${failed.length} files failed to upload, run the import again to retry them`);
+        }
+    },
+};
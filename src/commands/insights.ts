@@ -0,0 +1,227 @@
+import { Command } from './command';
+import { getGaminCNClient } from '../utils/garmin_cn';
+import { getGaminGlobalClient } from '../utils/garmin_global';
+import {
+    processActivityWithInsights,
+    processActivitiesWithInsights,
+    syncMissingInsightsToGarmin,
+    isAIInsightsEnabled,
+    GarminActivity,
+} from '../utils/ai_insights';
+import { initDB, initAIInsightsTable, deleteAIInsight } from '../utils/sqlite';
+import { describeActivityTypeFilter, filterActivitiesByType } from '../utils/activity_filter';
+import { OptionSpec, ParsedOptions } from '../utils/args';
+import { GarminClientType } from '../utils/type';
+import { ConfigPath, GARMIN_CN_ACCOUNT, GARMIN_GLOBAL_ACCOUNT, getConfig } from '../utils/config';
+
+const GLOBAL_OPTION: OptionSpec = { name: 'global', type: 'boolean', description: 'Use Global account instead of CN (default: USE_GLOBAL)' };
+
+const useGlobal = (options: ParsedOptions): boolean => Boolean(options.global) || getConfig().ai.useGlobal;
+
+const requiresAccount = (options: ParsedOptions): ConfigPath[] => useGlobal(options) ? GARMIN_GLOBAL_ACCOUNT : GARMIN_CN_ACCOUNT;
+
+/**
+ * Print why AI insights are disabled
+ * @returns false if AI insights are disabled
+ */
+const checkAIInsightsEnabled = (): boolean => {
+    if (!isAIInsightsEnabled()) {
+        console.log('❌ AI Insights is not enabled. Please check your configuration.');
+        console.log('Make sure GEMINI_API_KEY is set and AI_INSIGHTS_ENABLED is not false.');
+        return false;
+    }
+    return true;
+};
+
+/**
+ * @throws Error if the login failed
+ */
+const getClient = async (global: boolean): Promise<GarminClientType> => {
+    await initDB();
+    const client = global ? await getGaminGlobalClient() : await getGaminCNClient();
+    if (!client) {
+        throw new Error('Failed to initialize Garmin client');
+    }
+    return client;
+};
+
+/**
+ * Re-process recent activities for AI insights with trending comparisons.
+ * Useful after algorithm updates.
+ */
+const refreshCommand: Command = {
+    name: 'refresh',
+    summary: 'Re-process recent activities with the latest AI algorithm',
+    usage: '[options] [count]',
+    options: [
+        { name: 'count', alias: 'n', type: 'number', placeholder: '<N>', description: 'Number of most recent activities to process (default: REFRESH_COUNT, 5)' },
+        { name: 'force', alias: 'f', type: 'boolean', description: 'Force regeneration even if insights already exist' },
+        GLOBAL_OPTION,
+    ],
+    examples: [
+        'dailysync insights refresh                  # Process 5 most recent activities',
+        'dailysync insights refresh 10               # Process 10 most recent activities',
+        'dailysync insights refresh -n 10 --force    # Force regenerate 10 activities',
+        'dailysync insights refresh --global -n 20   # Process 20 activities from Global account',
+    ],
+    requires: requiresAccount,
+    run: async ({ options, positionals }) => {
+        // Allow bare number as count: dailysync insights refresh 10
+        const bareCount = positionals.find(arg => /^\d+$/.test(arg));
+        const count = (options.count as number | undefined) ?? (Number(bareCount) || getConfig().ai.refreshCount);
+        const force = Boolean(options.force);
+        const global = useGlobal(options);
+
+        console.log('========================================');
+        console.log('🔄 Refresh AI Insights');
+        console.log('========================================');
+        console.log(`Activities to process: ${count}`);
+        console.log(`Force regeneration: ${force ? 'Yes' : 'No'}`);
+        console.log(`Account: ${global ? 'Global' : 'CN'}`);
+        console.log('');
+
+        if (!checkAIInsightsEnabled()) {
+            return;
+        }
+
+        const client = await getClient(global);
+        await initAIInsightsTable();
+
+        // Fetch activities
+        console.log(`📥 Fetching ${count} most recent activities...`);
+        const activities = filterActivitiesByType(await client.getActivities(0, count) as GarminActivity[]);
+        console.log(`✅ Found ${activities.length} activities (${describeActivityTypeFilter()})`);
+        console.log('');
+
+        // Process each activity
+        let processedCount = 0;
+        let skippedCount = 0;
+        let errorCount = 0;
+
+        for (const activity of activities) {
+            const activityId = String(activity.activityId);
+            const activityDate = activity.startTimeLocal?.split('T')[0] || 'Unknown';
+
+            console.log(`\n📋 Activity: "${activity.activityName}" (${activityDate})`);
+
+            try {
+                if (force) {
+                    // Delete existing insight to force regeneration
+                    await deleteAIInsight(activityId);
+                    console.log(`   🗑️  Deleted existing insight for regeneration`);
+                }
+
+                // Process with all activities for trend context
+                const result = await processActivityWithInsights(activity, client, activities, force);
+
+                if (result) {
+                    processedCount++;
+                    console.log(`   ✅ Generated new insight (confidence: ${(result.confidence * 100).toFixed(0)}%)`);
+                } else {
+                    skippedCount++;
+                    console.log(`   ⏭️  Skipped (already has insight or generation failed)`);
+                }
+            } catch (error) {
+                errorCount++;
+                console.error(`   ❌ Error:`, error);
+            }
+
+            // Small delay to avoid rate limiting
+            await new Promise(resolve => setTimeout(resolve, 500));
+        }
+
+        console.log('\n========================================');
+        console.log('📊 Summary');
+        console.log('========================================');
+        console.log(`✅ Processed with new insights: ${processedCount}`);
+        console.log(`⏭️  Skipped: ${skippedCount}`);
+        if (errorCount > 0) {
+            console.log(`❌ Errors: ${errorCount}`);
+        }
+        console.log('========================================');
+        if (errorCount > 0) {
+            throw new Error(`${errorCount} of ${activities.length} activities failed`);
+        }
+    },
+};
+
+/**
+ * Process historical activities that don't have AI insights yet.
+ */
+const legacyCommand: Command = {
+    name: 'legacy',
+    summary: 'Generate AI insights for historical activities that have none yet',
+    options: [
+        { name: 'count', alias: 'n', type: 'number', placeholder: '<N>', description: 'Maximum number of activities to process (default: LEGACY_COUNT or ai.legacyCount)' },
+        GLOBAL_OPTION,
+    ],
+    examples: [
+        'dailysync insights legacy -n 50',
+    ],
+    requires: requiresAccount,
+    run: async ({ options }) => {
+        const count = (options.count as number | undefined) ?? getConfig().ai.legacyCount;
+        const global = useGlobal(options);
+
+        console.log('========================================');
+        console.log('AI Insights Legacy Processing');
+        console.log('========================================');
+        console.log(`Max activities to process: ${count}`);
+        console.log(`Using ${global ? 'Global' : 'CN'} account`);
+        console.log('');
+
+        if (!checkAIInsightsEnabled()) {
+            return;
+        }
+
+        const client = await getClient(global);
+
+        // Fetch activities
+        console.log(`Fetching up to ${count} activities...`);
+        const activities = filterActivitiesByType(await client.getActivities(0, count) as GarminActivity[]);
+        console.log(`Found ${activities.length} activities (${describeActivityTypeFilter()})`);
+        console.log('');
+
+        // Process activities with AI insights (and post comments to Garmin)
+        const processedCount = await processActivitiesWithInsights(activities, client);
+
+        console.log('========================================');
+        console.log(`Processing complete!`);
+        console.log(`Activities processed with new AI insights: ${processedCount}`);
+        console.log(`Activities skipped (already had insights): ${activities.length - processedCount}`);
+        console.log('========================================');
+    },
+};
+
+/**
+ * Check all activities with insights in the database and post them to Garmin
+ * if not already present in the activity description.
+ */
+const pushCommand: Command = {
+    name: 'push',
+    summary: 'Post saved AI insights missing from Garmin activity descriptions',
+    options: [GLOBAL_OPTION],
+    requires: requiresAccount,
+    run: async ({ options }) => {
+        const global = useGlobal(options);
+
+        console.log('========================================');
+        console.log('Sync Missing AI Insights to Garmin');
+        console.log('========================================');
+        console.log(`Using ${global ? 'Global' : 'CN'} account`);
+        console.log('');
+
+        const client = await getClient(global);
+        const syncedCount = await syncMissingInsightsToGarmin(client);
+
+        console.log('========================================');
+        console.log(`Sync complete! Activities synced: ${syncedCount}`);
+        console.log('========================================');
+    },
+};
+
+export const insightsCommand: Command = {
+    name: 'insights',
+    summary: 'Generate and publish AI insights',
+    subcommands: [refreshCommand, legacyCommand, pushCommand],
+};
@@ -0,0 +1,39 @@
+import { Command } from './command';
+import { MigrateOptions } from '../utils/garmin_common';
+import { migrateGarminAccounts } from '../utils/sync_endpoint';
+import { applyRetentionPolicy } from '../utils/archive';
+import { GARMIN_CN_ACCOUNT, GARMIN_GLOBAL_ACCOUNT } from '../utils/config';
+
+export const migrateCommand: Command = {
+    name: 'migrate',
+    summary: 'Migrate historical activities from one region to the other',
+    options: [
+        { name: 'from', type: 'string', choices: ['cn', 'global'], placeholder: '<cn|global>', description: 'Source region (default: cn)' },
+        { name: 'reset', type: 'boolean', description: 'Ignore the saved progress and start over' },
+        { name: 'since', type: 'date', description: 'First activity date, instead of GARMIN_MIGRATE_START / GARMIN_MIGRATE_NUM' },
+        { name: 'until', type: 'date', description: 'Last activity date' },
+        { name: 'dry-run', type: 'boolean', description: 'Print the migration plan without downloading or uploading' },
+    ],
+    examples: [
+        'dailysync migrate --from cn',
+        'dailysync migrate --from global --since 2022-01-01 --until 2022-12-31',
+        'dailysync migrate --reset',
+    ],
+    requires: () => [...GARMIN_CN_ACCOUNT, ...GARMIN_GLOBAL_ACCOUNT],
+    run: async ({ options }) => {
+        const migrateOptions: MigrateOptions = {
+            reset: Boolean(options.reset),
+            since: options.since as string | undefined,
+            until: options.until as string | undefined,
+            dryRun: Boolean(options['dry-run']),
+        };
+        if (options.from === 'global') {
+            await migrateGarminAccounts('GLOBAL', 'CN', undefined, migrateOptions);
+        } else {
+            await migrateGarminAccounts('CN', 'GLOBAL', undefined, migrateOptions);
+        }
+        if (!migrateOptions.dryRun) {
+            await applyRetentionPolicy();
+        }
+    },
+};
@@ -0,0 +1,58 @@
+import { Command } from './command';
+import { initDB, initRetryQueueTable, getRetryQueueEntries, purgeRetryQueue, deleteRetryQueueEntry } from '../utils/sqlite';
+import { getRetryMaxAttempts, isRetryEntryStuck } from '../utils/retry_queue';
+
+/**
+ * Failed transfers are retried automatically at the start of every sync and migration run;
+ * the ones that failed GARMIN_RETRY_MAX_ATTEMPTS times are stuck and stay in the queue until purged.
+ */
+
+const listCommand: Command = {
+    name: 'list',
+    summary: 'List queued transfers',
+    run: async () => {
+        await initDB();
+        await initRetryQueueTable();
+        const entries = await getRetryQueueEntries();
+        console.log('========================================');
+        console.log(`Retry queue: ${entries.length} transfers`);
+        console.log('========================================');
+        for (const entry of entries) {
+            const state = isRetryEntryStuck(entry) ? 'STUCK' : `next ${entry.nextAttemptAt}`;
+            console.log(`#${entry.id} ${entry.sourceRegion} -> ${entry.destRegion}  ${entry.activity.startTimeLocal}  ${entry.sourceActivityId}  【 ${entry.activity.activityName} 】`);
+            console.log(`    attempts: ${entry.attempts}/${getRetryMaxAttempts()}, ${state}, last error: ${entry.lastError ?? ''}`);
+        }
+        console.log('========================================');
+    },
+};
+
+const purgeCommand: Command = {
+    name: 'purge',
+    summary: `Delete stuck transfers (failed GARMIN_RETRY_MAX_ATTEMPTS times)`,
+    options: [
+        { name: 'all', type: 'boolean', description: 'Delete every queued transfer' },
+        { name: 'id', type: 'number', placeholder: '<id>', description: 'Delete one queued transfer' },
+    ],
+    examples: [
+        'dailysync retry purge               # Delete stuck transfers',
+        'dailysync retry purge --id 12       # Delete the transfer with id 12',
+    ],
+    run: async ({ options }) => {
+        await initDB();
+        await initRetryQueueTable();
+        if (options.id !== undefined) {
+            await deleteRetryQueueEntry(options.id as number);
+            console.log(`Deleted transfer #${options.id}`);
+            return;
+        }
+        const all = Boolean(options.all);
+        const deleted = await purgeRetryQueue(getRetryMaxAttempts(), all);
+        console.log(`Deleted ${deleted} ${all ? 'queued' : 'stuck'} transfers`);
+    },
+};
+
+export const retryCommand: Command = {
+    name: 'retry',
+    summary: 'List and purge failed transfers waiting in the retry queue',
+    subcommands: [listCommand, purgeCommand],
+};
@@ -0,0 +1,12 @@
+import { Command } from './command';
+import { doRQGoogleSheets } from '../utils/runningquotient';
+import { GARMIN_CN_ACCOUNT, GOOGLE_SHEETS_ACCOUNT, RQ_ACCOUNT } from '../utils/config';
+
+export const rqCommand: Command = {
+    name: 'rq',
+    summary: 'Append RQ (runningquotient.cn) and latest Garmin CN statistics to Google Sheets',
+    requires: () => [...RQ_ACCOUNT, ...GOOGLE_SHEETS_ACCOUNT, ...GARMIN_CN_ACCOUNT],
+    run: async () => {
+        await doRQGoogleSheets();
+    },
+};
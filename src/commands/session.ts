@@ -0,0 +1,304 @@
+import { Command } from './command';
+import {
+    decryptSession,
+    deleteSessionFromDB,
+    encryptSession,
+    getSessionsFromDB,
+    getStravaTokenRecords,
+    initDB,
+    initStravaTokenTable,
+    saveSessionToDB,
+    SessionRecord,
+    updateSessionCiphertext,
+    updateStravaTokenCiphertext,
+} from '../utils/sqlite';
+import {
+    createGarminClient,
+    getSessionTokenExpiry,
+    isAuthError,
+    readSessionRecord,
+    resumeSavedSession,
+} from '../utils/garmin_session';
+import { getConfig } from '../utils/config';
+import { getErrorStatusCode } from '../utils/garmin_common';
+import { OptionSpec, ParsedOptions, UsageError } from '../utils/args';
+import { GarminRegion } from '../utils/type';
+import _ from 'lodash';
+
+const REGION_OPTION: OptionSpec = { name: 'region', type: 'string', choices: ['cn', 'global'], placeholder: '<cn|global>', description: 'Only this region (default: both)' };
+
+const REFRESH_WITHIN_HOURS_DEFAULT = 24;
+
+const formatDate = (date?: Date | string): string => {
+    if (!date) {
+        return '-';
+    }
+    // sqlite datetime('now') is UTC without a zone
+    const value = typeof date === 'string' ? new Date(`${date.replace(' ', 'T')}Z`) : date;
+    return isNaN(value.getTime()) ? String(date) : value.toISOString().slice(0, 16).replace('T', ' ');
+};
+
+/**
+ * Regions of the current profile to work on, skipping those without a username
+ */
+const getRegions = (options: ParsedOptions): GarminRegion[] => {
+    const { cn, global } = getConfig().garmin;
+    const regions: GarminRegion[] = options.region ? [String(options.region).toUpperCase() as GarminRegion] : ['CN', 'GLOBAL'];
+    return regions.filter(region => {
+        const username = region === 'CN' ? cn.username : global.username;
+        if (!username) {
+            console.log(`${region}: no username configured, skipped`);
+        }
+        return Boolean(username);
+    });
+};
+
+/**
+ * Corrupt rows, and every row but the newest of each profile, user and region
+ */
+const findBrokenSessions = (sessions: SessionRecord[]): { session: SessionRecord; reason: string }[] => {
+    const broken: { session: SessionRecord; reason: string }[] = [];
+    const usable = sessions.filter(session => {
+        if (!readSessionRecord(session.session)) {
+            broken.push({ session, reason: 'corrupt (can not be decrypted with AESKEY, or has no tokens)' });
+            return false;
+        }
+        return true;
+    });
+    const groups = _.groupBy(usable, s => `${s.profile}\u0000${s.user}\u0000${s.region}`);
+    for (const group of Object.values(groups)) {
+        const [, ...older] = _.orderBy(group, 'id', 'desc');
+        broken.push(...older.map(session => ({ session, reason: `duplicate of a newer ${session.region} session` })));
+    }
+    return _.sortBy(broken, b => b.session.id);
+};
+
+const describeSession = (s: SessionRecord): string => `#${s.id} ${s.profile} ${s.region} ${s.user}`;
+
+const listCommand: Command = {
+    name: 'list',
+    summary: 'List saved Garmin sessions of every profile with token expiry',
+    run: async () => {
+        await initDB();
+        const sessions = await getSessionsFromDB();
+        const broken = new Map(findBrokenSessions(sessions).map(b => [b.session.id, b.reason]));
+        console.log(`Saved sessions: ${sessions.length}`);
+        for (const session of sessions) {
+            const tokens = readSessionRecord(session.session);
+            const expiry = tokens ? getSessionTokenExpiry(tokens) : {};
+            console.log([
+                `#${session.id}`.padEnd(5),
+                session.profile.padEnd(12),
+                session.region.padEnd(6),
+                session.user,
+            ].join(' '));
+            console.log(`      access token expires: ${formatDate(expiry.accessExpiresAt)}, refresh token expires: ${formatDate(expiry.refreshExpiresAt)}`);
+            console.log(`      updated: ${formatDate(session.updatedAt)}, last validated: ${formatDate(session.validatedAt)}`);
+            if (broken.has(session.id)) {
+                console.log(`      ⚠️  ${broken.get(session.id)}, run 'dailysync session repair'`);
+            }
+        }
+    },
+};
+
+const validateCommand: Command = {
+    name: 'validate',
+    summary: 'Check that the saved sessions of the profile are accepted by Garmin, without a password login',
+    options: [REGION_OPTION],
+    run: async ({ options }) => {
+        let invalid = 0;
+        for (const region of getRegions(options)) {
+            try {
+                const profile = await resumeSavedSession(createGarminClient(region), region);
+                console.log(`✅ ${region}: valid (${profile.userName ?? profile.displayName ?? 'unknown user'})`);
+            } catch (error: any) {
+                invalid++;
+                console.log(`❌ ${region}: invalid (status: ${getErrorStatusCode(error) || 'N/A'}): ${error?.message ?? error}`);
+            }
+        }
+        if (invalid > 0) {
+            throw new Error(`${invalid} saved sessions are not valid, run 'dailysync session refresh --login'`);
+        }
+    },
+};
+
+const refreshCommand: Command = {
+    name: 'refresh',
+    summary: 'Refresh the OAuth2 token of the saved sessions before it expires',
+    options: [
+        REGION_OPTION,
+        { name: 'within', type: 'number', placeholder: '<hours>', description: `Refresh tokens expiring within this many hours (default: ${REFRESH_WITHIN_HOURS_DEFAULT})` },
+        { name: 'force', alias: 'f', type: 'boolean', description: 'Refresh even if the token does not expire soon' },
+        { name: 'login', type: 'boolean', description: 'Log in with the password if the session can not be refreshed' },
+    ],
+    examples: [
+        'dailysync session refresh',
+        'dailysync session refresh --region global --force',
+        'dailysync session refresh --login --all-profiles',
+    ],
+    run: async ({ options }) => {
+        await initDB();
+        const withinMs = ((options.within as number | undefined) ?? REFRESH_WITHIN_HOURS_DEFAULT) * 3600 * 1000;
+        let failed = 0;
+        for (const region of getRegions(options)) {
+            const client = createGarminClient(region);
+            try {
+                const saved = await resumeSavedSession(client, region).then(() => client.exportToken());
+                const { accessExpiresAt } = getSessionTokenExpiry(saved);
+                if (!options.force && accessExpiresAt && accessExpiresAt.getTime() - Date.now() > withinMs) {
+                    console.log(`${region}: token expires ${formatDate(accessExpiresAt)}, no refresh needed`);
+                    continue;
+                }
+                await client.client.refreshOauth2Token();
+                await saveSessionToDB(region, client.exportToken());
+                console.log(`✅ ${region}: refreshed, token expires ${formatDate(getSessionTokenExpiry(client.exportToken()).accessExpiresAt)}`);
+            } catch (error: any) {
+                if (!options.login || (getErrorStatusCode(error) && !isAuthError(error))) {
+                    failed++;
+                    console.log(`❌ ${region}: refresh failed (status: ${getErrorStatusCode(error) || 'N/A'}): ${error?.message ?? error}`);
+                    continue;
+                }
+                const { username, password } = region === 'CN' ? getConfig().garmin.cn : getConfig().garmin.global;
+                try {
+                    console.log(`${region}: session can not be refreshed, logging in with password`);
+                    await client.login(username, password);
+                    await saveSessionToDB(region, client.exportToken());
+                    console.log(`✅ ${region}: logged in, new session saved`);
+                } catch (loginError: any) {
+                    failed++;
+                    console.log(`❌ ${region}: login failed: ${loginError?.message ?? loginError}`);
+                }
+            }
+        }
+        if (failed > 0) {
+            throw new Error(`${failed} sessions could not be refreshed${options.login ? '' : ', retry with --login'}`);
+        }
+    },
+};
+
+const deleteCommand: Command = {
+    name: 'delete',
+    summary: 'Delete saved sessions, the next run logs in with the password',
+    options: [
+        { name: 'id', type: 'number', placeholder: '<id>', description: 'Delete one session of any profile, see session list' },
+        { name: 'region', type: 'string', choices: ['cn', 'global'], placeholder: '<cn|global>', description: 'Delete the session of this region of the profile' },
+        { name: 'all', type: 'boolean', description: 'Delete every session of the profile' },
+    ],
+    examples: [
+        'dailysync session delete --id 3',
+        'dailysync session delete --region global --profile alice',
+    ],
+    run: async ({ options }) => {
+        if ([options.id, options.region, options.all].filter(Boolean).length !== 1) {
+            throw new UsageError('Use exactly one of --id, --region or --all');
+        }
+        await initDB();
+        const { profile, garmin } = getConfig();
+        const sessions = (await getSessionsFromDB()).filter(s => {
+            if (options.id) {
+                return s.id === options.id;
+            }
+            const region = options.region ? String(options.region).toUpperCase() : undefined;
+            const username = s.region === 'CN' ? garmin.cn.username : garmin.global.username;
+            return s.profile === profile && s.user === username && (!region || s.region === region);
+        });
+        for (const session of sessions) {
+            await deleteSessionFromDB(session.id);
+            console.log(`Deleted session ${describeSession(session)}`);
+        }
+        console.log(`Deleted ${sessions.length} sessions`);
+    },
+};
+
+const repairCommand: Command = {
+    name: 'repair',
+    summary: 'Delete corrupt sessions and older duplicates of every profile',
+    options: [
+        { name: 'dry-run', type: 'boolean', description: 'Only list the sessions that would be deleted' },
+    ],
+    run: async ({ options }) => {
+        await initDB();
+        const broken = findBrokenSessions(await getSessionsFromDB());
+        for (const { session, reason } of broken) {
+            console.log(`${options['dry-run'] ? 'Would delete' : 'Deleting'} session ${describeSession(session)}: ${reason}`);
+            if (!options['dry-run']) {
+                await deleteSessionFromDB(session.id);
+            }
+        }
+        console.log(broken.length > 0 ? `${broken.length} broken sessions ${options['dry-run'] ? 'found' : 'deleted'}` : 'No broken sessions');
+    },
+};
+
+const rotateKeyCommand: Command = {
+    name: 'rotate-key',
+    summary: 'Re-encrypt the saved sessions and Strava tokens of every profile with a new AESKEY',
+    options: [
+        { name: 'new-key', type: 'string', placeholder: '<key>', description: 'New key (default: AESKEY_NEW)' },
+        { name: 'old-key', type: 'string', placeholder: '<key>', description: 'Current key (default: AESKEY)' },
+        { name: 'dry-run', type: 'boolean', description: 'Only check that every session can be decrypted' },
+    ],
+    examples: [
+        'AESKEY_NEW=<new key> dailysync session rotate-key   # then set AESKEY to the new key',
+    ],
+    run: async ({ options }) => {
+        const oldKey = (options['old-key'] as string | undefined) ?? getConfig().aesKey;
+        const newKey = (options['new-key'] as string | undefined) ?? process.env.AESKEY_NEW;
+        if (!newKey) {
+            throw new UsageError('Missing new key, use --new-key or AESKEY_NEW');
+        }
+        if (newKey === oldKey) {
+            throw new UsageError('The new key is the same as the current key');
+        }
+        await initDB();
+
+        // decrypt everything first, so a wrong old key does not leave sessions encrypted with two keys
+        await initStravaTokenTable();
+        const saved: { name: string; ciphertext: string; update: (ciphertext: string) => Promise<void> }[] = [
+            ...(await getSessionsFromDB()).map(session => ({
+                name: `session ${describeSession(session)}`,
+                ciphertext: session.session,
+                update: (ciphertext: string) => updateSessionCiphertext(session.id, ciphertext),
+            })),
+            ...(await getStravaTokenRecords()).map(record => ({
+                name: `Strava token #${record.id} ${record.profile}`,
+                ciphertext: record.token,
+                update: (ciphertext: string) => updateStravaTokenCiphertext(record.id, ciphertext),
+            })),
+        ];
+        const rotations: { update: (ciphertext: string) => Promise<void>; ciphertext: string }[] = [];
+        const failures: string[] = [];
+        let alreadyRotated = 0;
+        for (const item of saved) {
+            try {
+                rotations.push({ update: item.update, ciphertext: encryptSession(decryptSession(item.ciphertext, oldKey), newKey) });
+            } catch (e) {
+                try {
+                    // left over from an interrupted rotation
+                    decryptSession(item.ciphertext, newKey);
+                    alreadyRotated++;
+                } catch (e2) {
+                    failures.push(item.name);
+                }
+            }
+        }
+        if (failures.length > 0) {
+            failures.forEach(name => console.log(`❌ ${name} can not be decrypted with the old key`));
+            throw new Error(`${failures.length} sessions or tokens can not be decrypted, nothing was changed. Check --old-key / AESKEY, or delete them with 'dailysync session repair'`);
+        }
+        if (!options['dry-run']) {
+            for (const { update, ciphertext } of rotations) {
+                await update(ciphertext);
+            }
+        }
+        console.log(`${options['dry-run'] ? 'Would re-encrypt' : 'Re-encrypted'} ${rotations.length} sessions and tokens${alreadyRotated ? `, ${alreadyRotated} already use the new key` : ''}`);
+        if (!options['dry-run']) {
+            console.log('Now set AESKEY (config.yaml or Github Actions secret) to the new key.');
+        }
+    },
+};
+
+export const sessionCommand: Command = {
+    name: 'session',
+    summary: 'Inspect, validate, refresh and delete saved Garmin sessions',
+    subcommands: [listCommand, validateCommand, refreshCommand, deleteCommand, repairCommand, rotateKeyCommand],
+};
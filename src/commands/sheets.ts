@@ -0,0 +1,13 @@
+import { Command } from './command';
+import { getLatestSheetsData } from '../utils/google_sheets';
+import { GOOGLE_SHEETS_ACCOUNT } from '../utils/config';
+
+export const sheetsCommand: Command = {
+    name: 'sheets',
+    summary: 'Print the latest row of the Google Sheet, to check the sheet configuration',
+    requires: () => GOOGLE_SHEETS_ACCOUNT,
+    run: async () => {
+        const row = await getLatestSheetsData();
+        console.log('Latest row in Google Sheets:', row ?? []);
+    },
+};
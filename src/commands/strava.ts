@@ -0,0 +1,109 @@
+import { Command } from './command';
+import { authorizeStrava, createStravaEndpoint, getStravaActivities, getStravaAthlete, getStravaAuthorizeUrl } from '../utils/strava';
+import { createGarminEndpoint, syncBetweenEndpoints } from '../utils/sync_endpoint';
+import { initDB } from '../utils/sqlite';
+import { GARMIN_CN_ACCOUNT, GARMIN_GLOBAL_ACCOUNT, STRAVA_APP } from '../utils/config';
+import { ParsedOptions } from '../utils/args';
+import { GarminRegion } from '../utils/type';
+
+const getSourceRegion = (options: ParsedOptions): GarminRegion => options.from === 'global' ? 'GLOBAL' : 'CN';
+
+const authCommand: Command = {
+    name: 'auth',
+    summary: 'Authorize the Strava app and save the OAuth token of the profile',
+    options: [
+        { name: 'code', type: 'string', placeholder: '<code>', description: 'Code from the redirect URL after authorizing, without it the authorization URL is printed' },
+    ],
+    examples: [
+        'dailysync strava auth                  # open the printed URL and authorize',
+        'dailysync strava auth --code <code>    # code=... from the URL Strava redirects to',
+    ],
+    requires: () => STRAVA_APP,
+    run: async ({ options }) => {
+        if (!options.code) {
+            console.log('Open this URL, authorize the app and run the command again with the code=... value of the page you are redirected to:');
+            console.log(getStravaAuthorizeUrl());
+            return;
+        }
+        await initDB();
+        const athlete = await authorizeStrava(String(options.code));
+        console.log(`✅ Authorized Strava athlete ${athlete.id ?? ''} ${athlete.firstname ?? ''} ${athlete.lastname ?? ''}, token saved`);
+    },
+};
+
+const statusCommand: Command = {
+    name: 'status',
+    summary: 'Check the saved Strava token, refreshing it if needed',
+    requires: () => STRAVA_APP,
+    run: async () => {
+        await initDB();
+        const athlete = await getStravaAthlete();
+        console.log(`✅ Strava athlete ${athlete.id} ${athlete.firstname ?? ''} ${athlete.lastname ?? ''} (${athlete.username ?? '-'})`);
+    },
+};
+
+const syncCommand: Command = {
+    name: 'sync',
+    summary: 'Upload new Garmin activities to Strava',
+    options: [
+        { name: 'from', type: 'string', choices: ['cn', 'global'], placeholder: '<cn|global>', description: 'Source region (default: cn)' },
+        { name: 'dry-run', type: 'boolean', description: 'Only list the activities that would be uploaded' },
+    ],
+    examples: [
+        'dailysync strava sync',
+        'dailysync strava sync --from global --dry-run',
+    ],
+    requires: options => [...STRAVA_APP, ...(getSourceRegion(options) === 'GLOBAL' ? GARMIN_GLOBAL_ACCOUNT : GARMIN_CN_ACCOUNT)],
+    run: async ({ options }) => {
+        await initDB();
+        await syncBetweenEndpoints(createGarminEndpoint(getSourceRegion(options)), createStravaEndpoint(), {
+            dryRun: Boolean(options['dry-run']),
+        });
+    },
+};
+
+const listCommand: Command = {
+    name: 'list',
+    summary: 'List the latest Strava activities',
+    options: [
+        { name: 'count', alias: 'n', type: 'number', placeholder: '<N>', description: 'Show the latest N activities, at most 200 (default: 20)' },
+    ],
+    requires: () => STRAVA_APP,
+    run: async ({ options }) => {
+        await initDB();
+        const acts = await getStravaActivities((options.count as number | undefined) ?? 20);
+        for (const act of acts) {
+            const km = (Number(act.distance ?? 0) / 1000).toFixed(2);
+            console.log(`${act.id}  ${act.start_date_local ?? act.start_date}  ${act.sport_type ?? act.type}  ${km} km  ${act.name}${act.external_id ? `  (${act.external_id})` : ''}`);
+        }
+        console.log(`${acts.length} activities`);
+    },
+};
+
+const importCommand: Command = {
+    name: 'import',
+    summary: 'Upload Strava activities not recorded by Garmin to a Garmin region',
+    options: [
+        { name: 'to', type: 'string', choices: ['cn', 'global'], placeholder: '<cn|global>', description: 'Destination region (default: cn)' },
+        { name: 'count', alias: 'n', type: 'number', placeholder: '<N>', description: 'Check the latest N Strava activities, at most 200 (default: GARMIN_SYNC_NUM)' },
+        { name: 'dry-run', type: 'boolean', description: 'Only list the activities that would be imported' },
+    ],
+    examples: [
+        'dailysync strava import --to cn --dry-run',
+        'dailysync strava import --to cn -n 50',
+    ],
+    requires: options => [...STRAVA_APP, ...(options.to === 'global' ? GARMIN_GLOBAL_ACCOUNT : GARMIN_CN_ACCOUNT)],
+    run: async ({ options }) => {
+        await initDB();
+        await syncBetweenEndpoints(createStravaEndpoint(), createGarminEndpoint(options.to === 'global' ? 'GLOBAL' : 'CN'), {
+            dryRun: Boolean(options['dry-run']),
+            count: options.count as number | undefined,
+        });
+    },
+};
+
+export const stravaCommand: Command = {
+    name: 'strava',
+    summary: 'Authorize Strava, upload Garmin activities to it and import Strava activities into Garmin',
+    subcommands: [authCommand, statusCommand, syncCommand, listCommand, importCommand],
+};
@@ -0,0 +1,119 @@
+import { Command } from './command';
+import { syncGarminBidirectional } from '../utils/garmin_bidirectional';
+import { applyRetentionPolicy } from '../utils/archive';
+import { createStravaEndpoint } from '../utils/strava';
+import { getWellnessSyncRange, syncWellness } from '../utils/wellness';
+import {
+    createGarminEndpoint,
+    getSyncEndpoint,
+    getSyncEndpointRequirements,
+    SYNC_ENDPOINT_NAMES,
+    syncBetweenEndpoints,
+    SyncEndpointName,
+    syncGarminAccounts,
+} from '../utils/sync_endpoint';
+import { ParsedOptions, UsageError } from '../utils/args';
+import { getConfig, STRAVA_APP } from '../utils/config';
+import { GarminRegion } from '../utils/type';
+
+interface SyncDirection {
+    from: SyncEndpointName | 'both';
+    to?: SyncEndpointName;
+}
+
+// CN <-> Global sync with the retry queue, mirroring and AI insights
+const isGarminDirection = ({ from, to }: SyncDirection): boolean => from === 'both' || (from === 'cn' && to === 'global') || (from === 'global' && to === 'cn');
+
+/**
+ * @throws UsageError for a direction that can not be synced
+ */
+const getDirection = (options: ParsedOptions): SyncDirection => {
+    const from = (options.from as SyncEndpointName | 'both' | undefined) ?? 'cn';
+    const to = options.to as SyncEndpointName | undefined;
+    if (from === 'both') {
+        if (to) {
+            throw new UsageError('--to can not be used with --from both');
+        }
+        return { from };
+    }
+    if (!to && from !== 'cn' && from !== 'global') {
+        throw new UsageError(`--to is required to sync from ${from}`);
+    }
+    const direction = { from, to: to ?? (from === 'cn' ? 'global' : 'cn') };
+    if (direction.from === direction.to) {
+        throw new UsageError('--from and --to must be different');
+    }
+    if (options.mirror && !isGarminDirection(direction)) {
+        throw new UsageError('--mirror only works between cn and global');
+    }
+    return direction;
+};
+
+// STRAVA_SYNC: a Garmin sync also uploads the activities of the source region to Strava
+const syncsToStrava = (direction: SyncDirection): boolean => getConfig().strava.sync && isGarminDirection(direction);
+
+// both regions record activities in a bidirectional sync, the copies one made of the other's are found on Strava by start time
+const getStravaSourceRegions = (direction: SyncDirection): GarminRegion[] => {
+    if (direction.from === 'both') {
+        return ['CN', 'GLOBAL'];
+    }
+    return [direction.from === 'global' ? 'GLOBAL' : 'CN'];
+};
+
+// WELLNESS_SYNC: a one-way Garmin sync also syncs the wellness data of the last WELLNESS_SYNC_DAYS days,
+// from earlier if the last wellness sync stopped before them
+const syncsWellness = (direction: SyncDirection): boolean => getConfig().wellness.sync && isGarminDirection(direction) && direction.from !== 'both';
+
+export const syncCommand: Command = {
+    name: 'sync',
+    summary: 'Sync new activities from one region to the other, or both ways, or between any two endpoints',
+    options: [
+        { name: 'from', type: 'string', choices: [...SYNC_ENDPOINT_NAMES, 'both'], placeholder: '<cn|global|archive|strava|both>', description: 'Source, both for bidirectional sync between CN and Global (default: cn)' },
+        { name: 'to', type: 'string', choices: SYNC_ENDPOINT_NAMES, placeholder: '<cn|global|archive|strava>', description: 'Destination (default: the other Garmin region)' },
+        { name: 'dry-run', type: 'boolean', description: 'Print the sync plan without downloading, uploading or annotating' },
+        { name: 'mirror', type: 'boolean', description: 'Mirror source deletions and edits between CN and Global, also both ways (default: GARMIN_MIRROR_CHANGES)' },
+    ],
+    examples: [
+        'dailysync sync                      # CN -> Global',
+        'dailysync sync --from global        # Global -> CN',
+        'dailysync sync --from both          # CN <-> Global',
+        'dailysync sync --dry-run',
+        'dailysync sync --from cn --to strava',
+        'dailysync sync --from archive --to global',
+        'STRAVA_SYNC=true dailysync sync     # CN -> Global and Strava',
+        'WELLNESS_SYNC=true dailysync sync   # CN -> Global, also steps, sleep, weight, ...',
+    ],
+    requires: options => {
+        const direction = getDirection(options);
+        const endpoints: SyncEndpointName[] = direction.from === 'both' ? ['cn', 'global'] : [direction.from, direction.to!];
+        return [...endpoints.flatMap(getSyncEndpointRequirements), ...(syncsToStrava(direction) ? STRAVA_APP : [])];
+    },
+    run: async ({ options }) => {
+        const dryRun = Boolean(options['dry-run']);
+        const mirror = options.mirror ? true : undefined;
+        const direction = getDirection(options);
+        if (direction.from === 'both') {
+            await syncGarminBidirectional({ dryRun, mirror });
+        } else if (!isGarminDirection(direction)) {
+            await syncBetweenEndpoints(getSyncEndpoint(direction.from), getSyncEndpoint(direction.to!), { dryRun });
+        } else {
+            await syncGarminAccounts(direction.from === 'global' ? 'GLOBAL' : 'CN', direction.to === 'global' ? 'GLOBAL' : 'CN', { dryRun, mirror });
+        }
+        if (syncsToStrava(direction)) {
+            for (const region of getStravaSourceRegions(direction)) {
+                if ((await syncBetweenEndpoints(createGarminEndpoint(region), createStravaEndpoint(), { dryRun })).stopped) {
+                    break;
+                }
+            }
+        }
+        if (syncsWellness(direction)) {
+            const sourceRegion = direction.from === 'global' ? 'GLOBAL' : 'CN';
+            const destRegion = sourceRegion === 'GLOBAL' ? 'CN' : 'GLOBAL';
+            const range = await getWellnessSyncRange(sourceRegion, destRegion, getConfig().wellness.days);
+            await syncWellness(sourceRegion, destRegion, { ...range, dryRun });
+        }
+        if (!dryRun) {
+            await applyRetentionPolicy();
+        }
+    },
+};
@@ -0,0 +1,95 @@
+import _ from 'lodash';
+import { Command } from './command';
+import { addDays, getLocalToday, getWellnessSyncRange, syncWellness, WELLNESS_METRICS, WELLNESS_UNITS, WellnessMetric } from '../utils/wellness';
+import { getWellnessEntries, initDB, initWellnessTable } from '../utils/sqlite';
+import { GARMIN_CN_ACCOUNT, GARMIN_GLOBAL_ACCOUNT, getConfig } from '../utils/config';
+import { OptionSpec, ParsedOptions, UsageError } from '../utils/args';
+import { GarminRegion } from '../utils/type';
+
+const getSourceRegion = (options: ParsedOptions): GarminRegion => options.from === 'global' ? 'GLOBAL' : 'CN';
+
+const getRegionAccount = (region: GarminRegion) => region === 'GLOBAL' ? GARMIN_GLOBAL_ACCOUNT : GARMIN_CN_ACCOUNT;
+
+const otherRegion = (region: GarminRegion): GarminRegion => region === 'GLOBAL' ? 'CN' : 'GLOBAL';
+
+const RANGE_OPTIONS: OptionSpec[] = [
+    { name: 'from', type: 'string', choices: ['cn', 'global'], placeholder: '<cn|global>', description: 'Source region (default: cn)' },
+    { name: 'since', type: 'date', description: 'First day (default: --days before --until)' },
+    { name: 'until', type: 'date', description: 'Last day (default: today)' },
+    { name: 'days', type: 'number', placeholder: '<N>', description: 'Number of days up to --until when --since is not given (default: WELLNESS_SYNC_DAYS)' },
+];
+
+/**
+ * @throws UsageError for an empty range
+ */
+const getDateRangeOptions = (options: ParsedOptions): { since: string; until: string } => {
+    const until = (options.until as string | undefined) ?? getLocalToday();
+    const days = (options.days as number | undefined) ?? getConfig().wellness.days;
+    if (days < 1) {
+        throw new UsageError('--days must be at least 1');
+    }
+    const since = (options.since as string | undefined) ?? addDays(until, 1 - days);
+    if (since > until) {
+        throw new UsageError('--since must not be after --until');
+    }
+    return { since, until };
+};
+
+const syncCommand: Command = {
+    name: 'sync',
+    summary: 'Sync daily steps, sleep, stress, HRV, resting heart rate, weight and hydration to the other region',
+    options: [
+        ...RANGE_OPTIONS,
+        { name: 'dry-run', type: 'boolean', description: 'Only print the data read from the source region' },
+    ],
+    examples: [
+        'dailysync wellness sync                          # CN -> Global, the last WELLNESS_SYNC_DAYS days and any days a stopped sync left',
+        'dailysync wellness sync --from global --days 7',
+        'dailysync wellness sync --since 2024-01-01 --until 2024-01-31 --dry-run',
+    ],
+    requires: options => {
+        const sourceRegion = getSourceRegion(options);
+        return options['dry-run'] ? getRegionAccount(sourceRegion) : [...getRegionAccount(sourceRegion), ...getRegionAccount(otherRegion(sourceRegion))];
+    },
+    run: async ({ options }) => {
+        const range = getDateRangeOptions(options);
+        const sourceRegion = getSourceRegion(options);
+        const destRegion = otherRegion(sourceRegion);
+        await initDB();
+        // without --since or --days the sync continues where the last one stopped
+        const resumes = options.since === undefined && options.days === undefined;
+        await syncWellness(sourceRegion, destRegion, {
+            ...(resumes ? await getWellnessSyncRange(sourceRegion, destRegion, getConfig().wellness.days, range.until) : range),
+            dryRun: Boolean(options['dry-run']),
+        });
+    },
+};
+
+const listCommand: Command = {
+    name: 'list',
+    summary: 'List the saved daily wellness data',
+    options: RANGE_OPTIONS,
+    examples: [
+        'dailysync wellness list --days 30',
+    ],
+    run: async ({ options }) => {
+        const { since, until } = getDateRangeOptions(options);
+        const sourceRegion = getSourceRegion(options);
+        await initDB();
+        await initWellnessTable();
+        const entries = await getWellnessEntries(sourceRegion, since, until);
+        const byDate = _.groupBy(entries, 'calendarDate');
+        _.forEach(byDate, (dayEntries, date) => {
+            const values = _.sortBy(dayEntries, e => WELLNESS_METRICS.indexOf(e.metric as WellnessMetric))
+                .map(e => `${e.metric} ${_.round(e.value ?? 0, 1)} ${WELLNESS_UNITS[e.metric as WellnessMetric] ?? ''} ${e.status}`);
+            console.log(`${date}  ${values.join(', ')}`);
+        });
+        console.log(`${_.size(byDate)} days of ${sourceRegion} wellness data from ${since} to ${until}`);
+    },
+};
+
+export const wellnessCommand: Command = {
+    name: 'wellness',
+    summary: 'Sync daily wellness data between the regions and list the saved data',
+    subcommands: [syncCommand, listCommand],
+};
@@ -6,6 +6,8 @@ export const FILE_SUFFIX = {
 export const DOWNLOAD_DIR = './garmin_fit_files';
 export const DB_FILE_PATH = './db/garmin.db';
 export const AESKEY_DEFAULT = 'LSKDAJALSD';
+// 未指定 --profile 时使用的配置档案，其下载目录即 DOWNLOAD_DIR，其他档案下载到 DOWNLOAD_DIR/<档案名>
+export const DAILYSYNC_PROFILE_DEFAULT = 'default';
 /**
  * GARMIN ACCOUNT
  */
@@ -20,6 +22,23 @@ export const GARMIN_MIGRATE_NUM_DEFAULT = '';
 export const GARMIN_MIGRATE_START_DEFAULT = '';
 // 佳明每次同步时检查的最多的数量
 export const GARMIN_SYNC_NUM_DEFAULT = 10;
+// 按运动类型(activityType.typeKey)过滤，逗号分隔，支持 * 通配，如 'running,*_running,cycling*'
+// 包含列表为空时不限制，排除列表优先
+export const GARMIN_ACTIVITY_INCLUDE_DEFAULT = '';
+export const GARMIN_ACTIVITY_EXCLUDE_DEFAULT = '';
+// 同步失败的活动进入重试队列，按指数退避重试：第 n 次失败后等待 GARMIN_RETRY_DELAY * 2^(n-1) 秒
+// 失败次数达到 GARMIN_RETRY_MAX_ATTEMPTS 后不再自动重试，可用 yarn retry_queue 查看，yarn dailysync retry purge 清理
+export const GARMIN_RETRY_MAX_ATTEMPTS_DEFAULT = 6;
+export const GARMIN_RETRY_DELAY_DEFAULT = 900;
+// 同步后将源账号中最近 GARMIN_MIRROR_NUM 条已同步活动的删除、改名及描述修改同步到目标账号，默认关闭
+// 每次最多删除 GARMIN_MIRROR_MAX_DELETIONS 条目标活动，超过的部分只输出提示
+export const GARMIN_MIRROR_CHANGES_DEFAULT = false;
+export const GARMIN_MIRROR_NUM_DEFAULT = 20;
+export const GARMIN_MIRROR_MAX_DELETIONS_DEFAULT = 3;
+// 下载的活动文件按日期归档在 DOWNLOAD_DIR/archive/YYYY/MM 下，内容相同的文件只保存一份
+// 保留策略：只保留最近 N 天下载的文件 / 归档总大小不超过 N GB，超出时删除最早归档的文件，0 表示不限制
+export const GARMIN_ARCHIVE_RETENTION_DAYS_DEFAULT = 0;
+export const GARMIN_ARCHIVE_MAX_GB_DEFAULT = 0;
 
 export const GARMIN_URL_DEFAULT = {
     'BASE_URL': 'https://connect.garmin.cn',
@@ -63,6 +82,33 @@ export const STRAVA_ACCESS_TOKEN_DEFAULT = '';
 export const STRAVA_CLIENT_ID_DEFAULT = '';
 export const STRAVA_CLIENT_SECRET_DEFAULT = '';
 export const STRAVA_REDIRECT_URI_DEFAULT = '';
+// 授权后得到的 refresh token，只在第一次使用，之后使用数据库中加密保存并自动刷新的令牌
+export const STRAVA_REFRESH_TOKEN_DEFAULT = '';
+// 同步后将源区域的新活动上传到 Strava，中国区账号无法使用佳明自带的 Strava 关联
+export const STRAVA_SYNC_DEFAULT = false;
+export const STRAVA_API_URL_DEFAULT = 'https://www.strava.com/api/v3';
+
+/**
+ * WELLNESS
+ */
+// 同步后也同步每日健康数据（步数、睡眠、压力、HRV、静息心率、体重、饮水）
+export const WELLNESS_SYNC_DEFAULT = false;
+// 每次同步最近几天的健康数据（含今天）
+export const WELLNESS_SYNC_DAYS_DEFAULT = 3;
+
+/**
+ * WEBHOOK
+ */
+// 接收事件的地址，多个用英文逗号分隔
+export const WEBHOOK_URLS_DEFAULT = '';
+// 签名密钥，设置后请求头 X-Dailysync-Signature 带上 HMAC-SHA256 签名
+export const WEBHOOK_SECRET_DEFAULT = '';
+// 只发送这些事件，英文逗号分隔，留空发送全部：activity.synced,activity.sync_failed,insight.generated,migration.completed
+export const WEBHOOK_EVENTS_DEFAULT = '';
+// 发送失败（网络错误、5xx、429）后按 1、2、4... 秒退避重试，总共最多尝试的次数
+export const WEBHOOK_MAX_ATTEMPTS_DEFAULT = 4;
+// 第一次重试前等待的毫秒数，之后每次翻倍
+export const WEBHOOK_RETRY_DELAY_DEFAULT = 1000;
 
 /**
  * GEMINI AI CONFIGURATION
@@ -70,3 +116,7 @@ export const STRAVA_REDIRECT_URI_DEFAULT = '';
 export const GEMINI_API_KEY_DEFAULT = '';
 export const AI_INSIGHTS_ENABLED_DEFAULT = true;
 export const AI_INSIGHTS_LEGACY_COUNT_DEFAULT = 10;
+// insights 命令默认使用国际区账号
+export const AI_INSIGHTS_USE_GLOBAL_DEFAULT = false;
+// insights refresh 默认重新分析的最近活动数
+export const AI_INSIGHTS_REFRESH_COUNT_DEFAULT = 5;
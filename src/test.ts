@@ -0,0 +1,14 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Test entry of yarn test
+ * Loads every src/test/*.test.ts, the tests use the node:test runner of Node 18+ and exit non-zero on a failure.
+ */
+
+const TEST_DIR = path.join(__dirname, 'test');
+
+fs.readdirSync(TEST_DIR)
+    .filter(file => file.endsWith('.test.ts'))
+    .sort()
+    .forEach(file => require(path.join(TEST_DIR, file)));
@@ -0,0 +1,248 @@
+import assert from 'assert';
+import { toGpx, toTcx } from '../utils/activity_export';
+import { FitActivity, readFitFile } from '../utils/fit';
+import { ACTIVITY_FIT, FIXTURE_RECORDS, START_TIME } from './fit_fixtures';
+
+const { describe, it } = require('node:test');
+
+interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string;
+}
+
+/**
+ * Parser of the XML written by the exporters, elements, attributes and text only
+ */
+const parseXml = (xml: string): XmlElement => {
+    const root: XmlElement = { name: '', attributes: {}, children: [], text: '' };
+    const stack = [root];
+    const tokens = /<\?[^>]*\?>|<(\/?)([\w:]+)([^>]*?)(\/?)>|([^<]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokens.exec(xml)) !== null) {
+        const [token, closing, name, attributeText, selfClosing, text] = match;
+        const parent = stack[stack.length - 1];
+        if (text !== undefined) {
+            parent.text += text.trim();
+        } else if (token.startsWith('<?')) {
+            continue;
+        } else if (closing) {
+            assert.strictEqual(parent.name, name, `</${name}> closes <${parent.name}>`);
+            stack.pop();
+        } else {
+            const attributes: Record<string, string> = {};
+            for (const [, key, value] of attributeText.matchAll(/([\w:]+)="([^"]*)"/g)) {
+                attributes[key] = value;
+            }
+            const element: XmlElement = { name, attributes, children: [], text: '' };
+            parent.children.push(element);
+            if (!selfClosing) {
+                stack.push(element);
+            }
+        }
+    }
+    assert.strictEqual(stack.length, 1, `<${stack[stack.length - 1].name}> is not closed`);
+    assert.strictEqual(root.children.length, 1, 'expected one root element');
+    return root.children[0];
+};
+
+interface ElementRule {
+    // the xsd:sequence of the element, children must appear in this order
+    sequence?: string[];
+    required?: string[];
+    attributes?: string[];
+    text?: (value: string) => boolean;
+}
+
+const isDecimal = (value: string): boolean => /^-?\d+(\.\d+)?$/.test(value);
+const isDateTime = (value: string): boolean => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(value);
+const isUnsignedByte = (min: number) => (value: string): boolean => /^\d+$/.test(value) && Number(value) >= min && Number(value) <= 255;
+
+/**
+ * The parts of GPX 1.1 and TrackPointExtension v1 the exporter writes, copied by hand from the schemas
+ */
+const GPX_RULES: Record<string, ElementRule> = {
+    gpx: { sequence: ['metadata', 'wpt', 'rte', 'trk', 'extensions'], attributes: ['version', 'creator'] },
+    metadata: { sequence: ['name', 'desc', 'author', 'copyright', 'link', 'time', 'keywords', 'bounds', 'extensions'] },
+    trk: { sequence: ['name', 'cmt', 'desc', 'src', 'link', 'number', 'type', 'extensions', 'trkseg'] },
+    trkseg: { sequence: ['trkpt', 'extensions'] },
+    trkpt: { sequence: ['ele', 'time', 'magvar', 'geoidheight', 'name', 'extensions'], attributes: ['lat', 'lon'] },
+    ele: { text: isDecimal },
+    time: { text: isDateTime },
+    name: {},
+    type: {},
+    extensions: { sequence: ['gpxtpx:TrackPointExtension'] },
+    'gpxtpx:TrackPointExtension': { sequence: ['gpxtpx:atemp', 'gpxtpx:wtemp', 'gpxtpx:depth', 'gpxtpx:hr', 'gpxtpx:cad', 'gpxtpx:Extensions'] },
+    'gpxtpx:atemp': { text: isDecimal },
+    'gpxtpx:hr': { text: isUnsignedByte(1) },
+    'gpxtpx:cad': { text: isUnsignedByte(0) },
+};
+
+/**
+ * The parts of Training Center Database v2 and ActivityExtension v2 the exporter writes, copied by hand from the schemas
+ */
+const TCX_RULES: Record<string, ElementRule> = {
+    TrainingCenterDatabase: { sequence: ['Folders', 'Activities', 'Workouts', 'Courses', 'Author', 'Extensions'] },
+    Activities: { sequence: ['Activity'] },
+    Activity: { sequence: ['Id', 'Lap', 'Notes', 'Training', 'Creator', 'Extensions'], required: ['Id', 'Lap'], attributes: ['Sport'] },
+    Id: { text: isDateTime },
+    Lap: {
+        sequence: [
+            'TotalTimeSeconds', 'DistanceMeters', 'MaximumSpeed', 'Calories', 'AverageHeartRateBpm', 'MaximumHeartRateBpm',
+            'Intensity', 'Cadence', 'TriggerMethod', 'Track', 'Notes', 'Extensions',
+        ],
+        required: ['TotalTimeSeconds', 'DistanceMeters', 'Calories', 'Intensity', 'TriggerMethod'],
+        attributes: ['StartTime'],
+    },
+    TotalTimeSeconds: { text: isDecimal },
+    DistanceMeters: { text: isDecimal },
+    MaximumSpeed: { text: isDecimal },
+    Calories: { text: value => /^\d+$/.test(value) && Number(value) <= 65535 },
+    AverageHeartRateBpm: { sequence: ['Value'], required: ['Value'] },
+    MaximumHeartRateBpm: { sequence: ['Value'], required: ['Value'] },
+    HeartRateBpm: { sequence: ['Value'], required: ['Value'] },
+    Value: { text: isUnsignedByte(1) },
+    Intensity: { text: value => value === 'Active' || value === 'Resting' },
+    Cadence: { text: isUnsignedByte(0) },
+    TriggerMethod: { text: value => ['Manual', 'Distance', 'Location', 'Time', 'HeartRate'].includes(value) },
+    Track: { sequence: ['Trackpoint'], required: ['Trackpoint'] },
+    Trackpoint: {
+        sequence: ['Time', 'Position', 'AltitudeMeters', 'DistanceMeters', 'HeartRateBpm', 'Cadence', 'SensorState', 'Extensions'],
+        required: ['Time'],
+    },
+    Time: { text: isDateTime },
+    Position: { sequence: ['LatitudeDegrees', 'LongitudeDegrees'], required: ['LatitudeDegrees', 'LongitudeDegrees'] },
+    LatitudeDegrees: { text: isDecimal },
+    LongitudeDegrees: { text: isDecimal },
+    AltitudeMeters: { text: isDecimal },
+    Notes: {},
+    Extensions: { sequence: ['ns3:TPX', 'ns3:LX'] },
+    'ns3:TPX': { sequence: ['ns3:Speed', 'ns3:RunCadence', 'ns3:Watts', 'ns3:Extensions'] },
+    'ns3:LX': { sequence: ['ns3:AvgSpeed', 'ns3:AvgRunCadence', 'ns3:MaxRunCadence', 'ns3:AvgWatts', 'ns3:MaxWatts', 'ns3:Extensions'] },
+    'ns3:Speed': { text: isDecimal },
+    'ns3:RunCadence': { text: isUnsignedByte(0) },
+    'ns3:Watts': { text: value => /^\d+$/.test(value) },
+    'ns3:AvgSpeed': { text: isDecimal },
+    'ns3:AvgRunCadence': { text: isUnsignedByte(0) },
+    'ns3:AvgWatts': { text: value => /^\d+$/.test(value) },
+    'ns3:MaxWatts': { text: value => /^\d+$/.test(value) },
+};
+
+/**
+ * Check the element and its descendants against the rules: known elements only, children in sequence order,
+ * required children and attributes present and valid text values
+ */
+const validate = (element: XmlElement, rules: Record<string, ElementRule>, path = element.name): void => {
+    const rule = rules[element.name];
+    assert.ok(rule, `unexpected element ${path}`);
+    for (const attribute of rule.attributes ?? []) {
+        assert.ok(element.attributes[attribute], `${path} is missing the ${attribute} attribute`);
+    }
+    if (rule.text) {
+        assert.ok(rule.text(element.text), `invalid value "${element.text}" of ${path}`);
+    }
+    const sequence = rule.sequence ?? [];
+    let position = 0;
+    for (const child of element.children) {
+        const index = sequence.indexOf(child.name);
+        assert.ok(index !== -1, `unexpected element ${child.name} in ${path}`);
+        assert.ok(index >= position, `${child.name} comes after ${sequence[position]} in ${path}`);
+        position = index;
+        validate(child, rules, `${path}/${child.name}`);
+    }
+    for (const required of rule.required ?? []) {
+        assert.ok(element.children.some(child => child.name === required), `${path} is missing ${required}`);
+    }
+};
+
+const findAll = (element: XmlElement, name: string): XmlElement[] => {
+    return element.children.flatMap(child => [...(child.name === name ? [child] : []), ...findAll(child, name)]);
+};
+
+const findText = (element: XmlElement, name: string): string | undefined => findAll(element, name)[0]?.text;
+
+describe('toGpx', () => {
+    const activity = readFitFile(ACTIVITY_FIT);
+    const gpx = parseXml(toGpx(activity, 'Morning Run & <Test>'));
+
+    it('follows the GPX 1.1 element order', () => {
+        validate(gpx, GPX_RULES);
+        assert.strictEqual(gpx.attributes.xmlns, 'http://www.topografix.com/GPX/1/1');
+    });
+
+    it('writes a track point per record with a position', () => {
+        const points = findAll(gpx, 'trkpt');
+        assert.strictEqual(points.length, FIXTURE_RECORDS.length);
+        assert.strictEqual(points[0].attributes.lat, FIXTURE_RECORDS[0].lat.toFixed(7));
+        assert.strictEqual(points[0].attributes.lon, FIXTURE_RECORDS[0].long.toFixed(7));
+        assert.strictEqual(findText(points[0], 'ele'), FIXTURE_RECORDS[0].altitude.toFixed(1));
+        assert.strictEqual(findText(points[0], 'time'), '2021-09-08T01:46:40Z');
+        // the parser keeps entities as they are
+        assert.strictEqual(findText(gpx, 'name'), 'Morning Run &amp; &lt;Test&gt;');
+        assert.strictEqual(findText(gpx, 'type'), 'running');
+    });
+
+    it('leaves out heart rates below 1', () => {
+        const heartRates = findAll(gpx, 'trkpt').map(point => findText(point, 'gpxtpx:hr'));
+        assert.deepStrictEqual(heartRates, FIXTURE_RECORDS.map(record => record.heartRate > 0 ? String(record.heartRate) : undefined));
+    });
+
+    it('leaves out records without a position', () => {
+        const withoutPosition: FitActivity = {
+            ...activity,
+            records: activity.records.map((record, i) => i === 0 ? { ...record, positionLat: undefined, positionLong: undefined } : record),
+        };
+        const parsed = parseXml(toGpx(withoutPosition));
+        validate(parsed, GPX_RULES);
+        assert.strictEqual(findAll(parsed, 'trkpt').length, FIXTURE_RECORDS.length - 1);
+    });
+});
+
+describe('toTcx', () => {
+    const activity = readFitFile(ACTIVITY_FIT);
+    const tcx = parseXml(toTcx(activity, 'Morning Run'));
+
+    it('follows the Training Center Database v2 element order', () => {
+        validate(tcx, TCX_RULES);
+        assert.strictEqual(tcx.attributes.xmlns, 'http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2');
+        assert.strictEqual(findAll(tcx, 'Activity')[0].attributes.Sport, 'Running');
+        assert.strictEqual(findText(tcx, 'Id'), START_TIME.toISOString().replace('.000Z', 'Z'));
+    });
+
+    it('puts every record on the track of its lap', () => {
+        const laps = findAll(tcx, 'Lap');
+        assert.strictEqual(laps.length, 2);
+        assert.deepStrictEqual(laps.map(lap => findAll(lap, 'Trackpoint').length), [2, 3]);
+        assert.strictEqual(laps[1].attributes.StartTime, '2021-09-08T01:47:00Z');
+        for (const lap of laps) {
+            assert.strictEqual(findAll(lap, 'Track').length, 1);
+        }
+    });
+
+    it('writes heart rates of at least 1 only', () => {
+        const trackpoints = findAll(tcx, 'Trackpoint');
+        const heartRates = trackpoints.map(point => findAll(point, 'HeartRateBpm')[0]?.children[0].text);
+        assert.deepStrictEqual(heartRates, FIXTURE_RECORDS.map(record => record.heartRate > 0 ? String(record.heartRate) : undefined));
+    });
+
+    it('writes running cadence and power to the extension', () => {
+        const [first] = findAll(tcx, 'Trackpoint');
+        assert.strictEqual(findText(first, 'ns3:RunCadence'), '85');
+        assert.strictEqual(findText(first, 'ns3:Watts'), '250');
+        assert.strictEqual(findText(first, 'Cadence'), undefined);
+    });
+
+    it('makes one lap of the records if the file has no laps', () => {
+        const parsed = parseXml(toTcx({ ...activity, laps: [], sessions: [] }));
+        validate(parsed, TCX_RULES);
+        const laps = findAll(parsed, 'Lap');
+        assert.strictEqual(laps.length, 1);
+        assert.strictEqual(findText(laps[0], 'TotalTimeSeconds'), '40.0');
+        assert.strictEqual(findAll(laps[0], 'Trackpoint').length, FIXTURE_RECORDS.length);
+    });
+
+    it('needs a lap or a record', () => {
+        assert.throws(() => toTcx({ sessions: [], laps: [], records: [], devices: [] }), /at least one lap/);
+    });
+});
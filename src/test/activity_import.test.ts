@@ -0,0 +1,145 @@
+import assert from 'assert';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig } from '../utils/config';
+import { importActivityFolder } from '../utils/activity_import';
+import { getImportLedgerEntry } from '../utils/sqlite';
+import { GarminClientType } from '../utils/type';
+
+const { describe, it, before, after } = require('node:test');
+
+/**
+ * Garmin account with the listed activities, answering uploads in turn with the given responses,
+ * a success after them; an Error response is thrown
+ */
+const createMockClient = (activities: Record<string, any>[], responses: (Record<string, any> | Error)[] = []) => {
+    const uploads: string[] = [];
+    let nextId = 5000;
+    const client = {
+        getActivities: async (start: number, limit: number) => activities.slice(start, start + limit),
+        uploadActivity: async (filePath: string) => {
+            uploads.push(path.basename(filePath));
+            const response = responses.shift() ?? { detailedImportResult: { successes: [{ internalId: nextId++ }], failures: [] } };
+            if (response instanceof Error) {
+                throw response;
+            }
+            return response;
+        },
+    };
+    return { client: client as unknown as GarminClientType, uploads };
+};
+
+const httpError = (status: number): Error => Object.assign(new Error(`Request failed with status code ${status}`), { response: { status } });
+
+// a GPX track starting at the given time
+const gpx = (time: string, name = 'Run') => `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="dailysync-test" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk><name>${name}</name><trkseg>
+    <trkpt lat="31.2" lon="121.4"><time>${time}</time></trkpt>
+  </trkseg></trk>
+</gpx>
+`;
+
+const hashOf = (content: string) => crypto.createHash('sha256').update(content).digest('hex');
+
+describe('Activity import', () => {
+    const cwd = process.cwd();
+    let tempDir = '';
+
+    // a folder of the import with the given files
+    const createFolder = (name: string, files: Record<string, string>): string => {
+        const dir = path.join(tempDir, name);
+        for (const [file, content] of Object.entries(files)) {
+            fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+            fs.writeFileSync(path.join(dir, file), content);
+        }
+        return dir;
+    };
+
+    before(() => {
+        // the database is relative to the working directory
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dailysync-test-'));
+        fs.mkdirSync(path.join(tempDir, 'db'));
+        process.chdir(tempDir);
+        loadConfig();
+    });
+
+    after(() => {
+        process.chdir(cwd);
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('uploads each content once and skips the files a previous run finished', async () => {
+        const morning = gpx('2024-05-01T06:00:00Z', 'Morning');
+        const evening = gpx('2024-05-01T18:00:00Z', 'Evening');
+        const dir = createFolder('once', { 'a/morning.gpx': morning, 'b/morning-copy.gpx': morning, 'evening.gpx': evening, 'notes.txt': 'not an activity' });
+        const first = createMockClient([], [{ detailedImportResult: { successes: [], failures: [{ messages: [{ content: 'Upload failed' }] }] } }]);
+
+        const summary = await importActivityFolder(dir, 'GLOBAL', first.client);
+
+        // newest first, the copy in b/ has the content of a/morning.gpx
+        assert.deepStrictEqual(first.uploads, ['evening.gpx', 'morning.gpx']);
+        assert.strictEqual(summary.files, 3);
+        assert.strictEqual(summary.skipped, 1);
+        assert.deepStrictEqual(summary.results.map(r => [path.basename(r.filePath), r.status]), [['evening.gpx', 'REJECTED'], ['morning.gpx', 'CREATED']]);
+        assert.strictEqual((await getImportLedgerEntry('GLOBAL', hashOf(morning)))?.destActivityId, '5000');
+
+        const second = createMockClient([]);
+        const rerun = await importActivityFolder(dir, 'GLOBAL', second.client);
+        assert.deepStrictEqual(second.uploads, []);
+        assert.strictEqual(rerun.skipped, 3);
+
+        // a reset uploads the finished files again
+        const reset = createMockClient([]);
+        await importActivityFolder(dir, 'GLOBAL', reset.client, { reset: true });
+        assert.deepStrictEqual(reset.uploads, ['evening.gpx', 'morning.gpx']);
+    });
+
+    it('records files starting at the time of an activity of the account as duplicates', async () => {
+        const dir = createFolder('duplicates', {
+            'ride.gpx': gpx('2024-06-02T07:00:30Z', 'Ride'),
+            'swim.gpx': gpx('2024-06-01T07:00:00Z', 'Swim'),
+        });
+        const account = [
+            { activityId: 901, startTimeGMT: '2024-06-03 08:00:00' },
+            // 30 seconds before the ride
+            { activityId: 902, startTimeGMT: '2024-06-02 07:00:00' },
+            { activityId: 903, startTimeGMT: '2024-05-30 07:00:00' },
+        ];
+        const mock = createMockClient(account);
+
+        const summary = await importActivityFolder(dir, 'CN', mock.client);
+
+        assert.deepStrictEqual(mock.uploads, ['swim.gpx']);
+        assert.deepStrictEqual(summary.results.map(r => [path.basename(r.filePath), r.status, r.destActivityId]), [
+            ['ride.gpx', 'DUPLICATE', '902'],
+            ['swim.gpx', 'CREATED', '5000'],
+        ]);
+        assert.strictEqual((await getImportLedgerEntry('CN', hashOf(gpx('2024-06-02T07:00:30Z', 'Ride'))))?.status, 'DUPLICATE');
+    });
+
+    for (const [status, error] of [['AUTH_FAILED', httpError(401)], ['RATE_LIMITED', httpError(429)]] as const) {
+        it(`stops at ${status} without recording the file`, async () => {
+            const newest = gpx(`2024-07-0${status === 'AUTH_FAILED' ? 2 : 4}T06:00:00Z`, `${status} newest`);
+            const dir = createFolder(status, {
+                'newest.gpx': newest,
+                'oldest.gpx': gpx(`2024-07-0${status === 'AUTH_FAILED' ? 1 : 3}T06:00:00Z`, `${status} oldest`),
+            });
+            const stopped = createMockClient([], [error]);
+
+            const summary = await importActivityFolder(dir, 'GLOBAL', stopped.client);
+
+            assert.strictEqual(summary.stoppedAt, status);
+            assert.deepStrictEqual(stopped.uploads, ['newest.gpx']);
+            assert.deepStrictEqual(summary.results, []);
+            assert.strictEqual(await getImportLedgerEntry('GLOBAL', hashOf(newest)), undefined);
+
+            // the next run continues with the file it stopped at
+            const resumed = createMockClient([]);
+            await importActivityFolder(dir, 'GLOBAL', resumed.client);
+            assert.deepStrictEqual(resumed.uploads, ['newest.gpx', 'oldest.gpx']);
+        });
+    }
+});
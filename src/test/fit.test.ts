@@ -0,0 +1,197 @@
+import assert from 'assert';
+import fs from 'fs';
+import { decodeFit, fitCrc, FitDecodeError, readFitFile } from '../utils/fit';
+import { crc16, fitData, fitDefinition, fitFile, FitMessageDefinition } from './fit_builder';
+import {
+    ACTIVITY_FIT,
+    buildActivityFit,
+    buildCorruptCrcFit,
+    CORRUPT_CRC_FIT,
+    DEVICE_SWIM_FIT,
+    FIXTURE_CADENCE,
+    FIXTURE_POWER,
+    FIXTURE_PRODUCT_NAME,
+    FIXTURE_RECORDS,
+    FIXTURE_SPEED,
+    RECORD_INTERVAL,
+    START_TIME,
+} from './fit_fixtures';
+
+const { describe, it } = require('node:test');
+
+const secondsAfterStart = (seconds: number): Date => new Date(START_TIME.getTime() + seconds * 1000);
+
+const assertClose = (actual: number | undefined, expected: number, tolerance = 1e-6) => {
+    assert.ok(actual !== undefined && Math.abs(actual - expected) <= tolerance, `expected ${actual} to be close to ${expected}`);
+};
+
+describe('FIT fixtures', () => {
+    it('match the fixture builder', () => {
+        assert.deepStrictEqual(fs.readFileSync(ACTIVITY_FIT), buildActivityFit());
+        assert.deepStrictEqual(fs.readFileSync(CORRUPT_CRC_FIT), buildCorruptCrcFit());
+    });
+});
+
+describe('fitCrc', () => {
+    it('computes the CRC-16/ARC check value', () => {
+        const data = Buffer.from('123456789', 'ascii');
+        assert.strictEqual(fitCrc(data), 0xBB3D);
+        assert.strictEqual(crc16(data), 0xBB3D);
+        // a range of the data
+        assert.strictEqual(fitCrc(Buffer.from('xx123456789x', 'ascii'), 2, 11), 0xBB3D);
+        assert.strictEqual(fitCrc(Buffer.alloc(0)), 0);
+    });
+
+    it('matches the file CRC of a device file', () => {
+        const data = fs.readFileSync(DEVICE_SWIM_FIT);
+        // the device left the header CRC out (0)
+        assert.strictEqual(data.readUInt16LE(12), 0);
+        assert.strictEqual(fitCrc(data, 0, data.length - 2), data.readUInt16LE(data.length - 2));
+        assert.strictEqual(crc16(data), 0);
+    });
+});
+
+describe('decodeFit device files', () => {
+    // the values the FIT SDK decodes from the file
+    it('decodes a Forerunner 910XT pool swim', () => {
+        const activity = readFitFile(DEVICE_SWIM_FIT);
+
+        assert.deepStrictEqual(activity.fileId, {
+            type: 4,
+            manufacturer: 1,
+            product: 1328,
+            serialNumber: 3845761823,
+            timeCreated: new Date('2012-07-07T18:26:05Z'),
+        });
+        const [session] = activity.sessions;
+        assert.strictEqual(activity.sessions.length, 1);
+        assert.strictEqual(session.sport, 'swimming');
+        assert.deepStrictEqual(session.startTime, new Date('2012-07-07T18:26:04Z'));
+        assertClose(session.totalTimerTime, 2164.286);
+        assert.strictEqual(session.totalDistance, 1350);
+        assert.strictEqual(session.totalCalories, 428);
+        assertClose(session.avgSpeed, 0.624);
+        assertClose(session.maxSpeed, 2.151);
+        assert.strictEqual(session.numLaps, 4);
+        assert.deepStrictEqual(activity.laps.map(lap => [lap.startTime?.toISOString(), lap.totalDistance, lap.totalTimerTime]), [
+            ['2012-07-07T18:26:04.000Z', 350, 527.662],
+            ['2012-07-07T18:34:53.000Z', 100, 194.748],
+            ['2012-07-07T18:38:07.000Z', 175, 316.252],
+            ['2012-07-07T18:43:23.000Z', 725, 1125.624],
+        ]);
+        // a pool swim has lengths instead of records
+        assert.strictEqual(activity.records.length, 0);
+        assert.strictEqual(activity.devices.length, 6);
+        assert.strictEqual(activity.devices[0].softwareVersion, 2.4);
+    });
+});
+
+describe('decodeFit', () => {
+    const activity = readFitFile(ACTIVITY_FIT);
+
+    it('decodes the messages of the definition and data messages', () => {
+        assert.deepStrictEqual(activity.fileId, {
+            type: 4,
+            manufacturer: 1,
+            product: 4315,
+            serialNumber: 3412345678,
+            timeCreated: START_TIME,
+        });
+        assert.strictEqual(activity.devices.length, 1);
+        assert.strictEqual(activity.devices[0].productName, FIXTURE_PRODUCT_NAME);
+        assert.strictEqual(activity.devices[0].batteryVoltage, 4);
+        assert.strictEqual(activity.sessions.length, 1);
+        assert.deepStrictEqual(activity.sessions[0], {
+            timestamp: secondsAfterStart(40),
+            startTime: START_TIME,
+            sport: 'running',
+            totalElapsedTime: 40,
+            totalDistance: 120,
+            avgHeartRate: 122,
+            numLaps: 2,
+        });
+    });
+
+    it('decodes big endian messages', () => {
+        assert.strictEqual(activity.laps.length, 2);
+        assert.deepStrictEqual(activity.laps[1], {
+            timestamp: secondsAfterStart(40),
+            startTime: secondsAfterStart(20),
+            totalElapsedTime: 20,
+            totalTimerTime: 20,
+            totalDistance: 60,
+            totalCalories: 10,
+            avgHeartRate: 88,
+            maxHeartRate: 135,
+        });
+    });
+
+    it('scales the record fields and prefers the enhanced ones', () => {
+        const [first] = activity.records;
+        assertClose(first.positionLat, FIXTURE_RECORDS[0].lat);
+        assertClose(first.positionLong, FIXTURE_RECORDS[0].long);
+        assert.strictEqual(first.altitude, FIXTURE_RECORDS[0].altitude);
+        assert.strictEqual(first.speed, FIXTURE_SPEED);
+        assert.strictEqual(first.cadence, FIXTURE_CADENCE);
+        assert.strictEqual(first.power, FIXTURE_POWER);
+        assert.ok(!('enhancedSpeed' in first) && !('enhancedAltitude' in first));
+    });
+
+    it('places records with compressed timestamps, also when the time offset rolls over', () => {
+        assert.deepStrictEqual(
+            activity.records.map(record => record.timestamp),
+            FIXTURE_RECORDS.map((record, i) => secondsAfterStart(i * RECORD_INTERVAL)),
+        );
+        assert.deepStrictEqual(activity.records.map(record => record.heartRate), FIXTURE_RECORDS.map(record => record.heartRate));
+        assert.deepStrictEqual(activity.records.map(record => record.distance), FIXTURE_RECORDS.map(record => record.distance));
+    });
+
+    it('skips developer fields', () => {
+        // the developer field bytes follow every record with a full timestamp, a wrong size would shift the next record
+        assert.strictEqual(activity.records[1].heartRate, FIXTURE_RECORDS[1].heartRate);
+        assertClose(activity.records[1].positionLat, FIXTURE_RECORDS[1].lat);
+        assert.strictEqual(activity.records[1].power, FIXTURE_POWER);
+    });
+
+    it('decodes chained FIT files as one activity', () => {
+        const chained = decodeFit(Buffer.concat([buildActivityFit(), buildActivityFit()]));
+        assert.strictEqual(chained.records.length, FIXTURE_RECORDS.length * 2);
+        assert.strictEqual(chained.sessions.length, 2);
+    });
+});
+
+describe('decodeFit errors', () => {
+    it('rejects a file CRC mismatch', () => {
+        assert.throws(() => readFitFile(CORRUPT_CRC_FIT), (e: any) => e instanceof FitDecodeError && /file CRC mismatch/.test(e.message));
+    });
+
+    it('decodes a corrupt file without the CRC check', () => {
+        const activity = readFitFile(CORRUPT_CRC_FIT, { checkCrc: false });
+        assert.strictEqual(activity.sessions[0].numLaps, 258);
+    });
+
+    it('rejects a header CRC mismatch', () => {
+        const data = buildActivityFit();
+        data.writeUInt16LE(data.readUInt16LE(12) ^ 0xFFFF, 12);
+        assert.throws(() => decodeFit(data), (e: any) => e instanceof FitDecodeError && /header CRC mismatch/.test(e.message));
+    });
+
+    it('rejects data that is not a FIT file', () => {
+        const data = buildActivityFit();
+        data.write('.TXT', 8, 'ascii');
+        assert.throws(() => decodeFit(data), (e: any) => e instanceof FitDecodeError && /missing \.FIT signature/.test(e.message));
+    });
+
+    it('rejects a truncated file', () => {
+        const data = buildActivityFit();
+        assert.throws(() => decodeFit(data.subarray(0, data.length - 10)), FitDecodeError);
+        assert.throws(() => decodeFit(data.subarray(0, 8)), FitDecodeError);
+    });
+
+    it('rejects a data message without a definition', () => {
+        const definition: FitMessageDefinition = { localNum: 3, globalNum: 20, fields: [{ num: 3, type: 'uint8' }] };
+        const data = fitFile([fitData(definition, [120])]);
+        assert.throws(() => decodeFit(data), (e: any) => e instanceof FitDecodeError && /undefined local message type 3/.test(e.message));
+        assert.strictEqual(decodeFit(fitFile([fitDefinition(definition), fitData(definition, [120])])).records.length, 0);
+    });
+});
@@ -0,0 +1,150 @@
+/**
+ * Writer of small FIT files for the test fixtures
+ * Covers only what the fixtures need: definition and data messages, compressed timestamp headers and developer fields.
+ * Independent of the decoder under test, the CRC included.
+ */
+
+export type FitBaseType = 'enum' | 'sint8' | 'uint8' | 'sint16' | 'uint16' | 'sint32' | 'uint32' | 'string' | 'uint32z';
+
+export interface FitFieldDefinition {
+    num: number;
+    type: FitBaseType;
+    // bytes, only needed for strings
+    size?: number;
+}
+
+export interface FitDeveloperFieldDefinition {
+    num: number;
+    size: number;
+    developerIndex: number;
+}
+
+export interface FitMessageDefinition {
+    localNum: number;
+    globalNum: number;
+    fields: FitFieldDefinition[];
+    developerFields?: FitDeveloperFieldDefinition[];
+    bigEndian?: boolean;
+}
+
+// seconds between the Unix epoch and the FIT epoch 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET = 631065600;
+
+const BASE_TYPES: Record<FitBaseType, { id: number; size: number }> = {
+    enum: { id: 0x00, size: 1 },
+    sint8: { id: 0x01, size: 1 },
+    uint8: { id: 0x02, size: 1 },
+    sint16: { id: 0x83, size: 2 },
+    uint16: { id: 0x84, size: 2 },
+    sint32: { id: 0x85, size: 4 },
+    uint32: { id: 0x86, size: 4 },
+    string: { id: 0x07, size: 1 },
+    uint32z: { id: 0x8C, size: 4 },
+};
+
+/**
+ * CRC-16 of the FIT protocol (CRC-16/ARC), bit by bit where the decoder uses a nibble table
+ */
+export const crc16 = (data: Buffer): number => {
+    let crc = 0;
+    for (const byte of data) {
+        crc ^= byte;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 1 ? (crc >>> 1) ^ 0xA001 : crc >>> 1;
+        }
+    }
+    return crc;
+};
+
+const getFieldSize = (field: FitFieldDefinition): number => field.size ?? BASE_TYPES[field.type].size;
+
+export const toFitTimestamp = (date: Date): number => Math.round(date.getTime() / 1000) - FIT_EPOCH_OFFSET;
+
+export const toSemicircles = (degrees: number): number => Math.round(degrees * 2 ** 31 / 180);
+
+export const fitDefinition = (definition: FitMessageDefinition): Buffer => {
+    const developerFields = definition.developerFields ?? [];
+    const header = 0x40 | (developerFields.length > 0 ? 0x20 : 0) | definition.localNum;
+    const bytes = [header, 0, definition.bigEndian ? 1 : 0];
+    bytes.push(...(definition.bigEndian
+        ? [definition.globalNum >> 8, definition.globalNum & 0xFF]
+        : [definition.globalNum & 0xFF, definition.globalNum >> 8]));
+    bytes.push(definition.fields.length);
+    for (const field of definition.fields) {
+        bytes.push(field.num, getFieldSize(field), BASE_TYPES[field.type].id);
+    }
+    if (developerFields.length > 0) {
+        bytes.push(developerFields.length);
+        for (const field of developerFields) {
+            bytes.push(field.num, field.size, field.developerIndex);
+        }
+    }
+    return Buffer.from(bytes);
+};
+
+const writeValue = (field: FitFieldDefinition, value: number | string, bigEndian: boolean): Buffer => {
+    const data = Buffer.alloc(getFieldSize(field));
+    if (field.type === 'string') {
+        data.write(String(value), 'utf8');
+        return data;
+    }
+    const number = Number(value);
+    switch (field.type) {
+        case 'enum':
+        case 'uint8':
+            data.writeUInt8(number);
+            break;
+        case 'sint8':
+            data.writeInt8(number);
+            break;
+        case 'sint16':
+            bigEndian ? data.writeInt16BE(number) : data.writeInt16LE(number);
+            break;
+        case 'uint16':
+            bigEndian ? data.writeUInt16BE(number) : data.writeUInt16LE(number);
+            break;
+        case 'sint32':
+            bigEndian ? data.writeInt32BE(number) : data.writeInt32LE(number);
+            break;
+        case 'uint32':
+        case 'uint32z':
+            bigEndian ? data.writeUInt32BE(number) : data.writeUInt32LE(number);
+            break;
+    }
+    return data;
+};
+
+/**
+ * Data message with the values in the order of the definition fields
+ * @param timeOffset low 5 bits of the timestamp, writes a compressed timestamp header (local message type 0-3 only)
+ */
+export const fitData = (definition: FitMessageDefinition, values: (number | string)[], developerData: Buffer = Buffer.alloc(0), timeOffset?: number): Buffer => {
+    if (values.length !== definition.fields.length) {
+        throw new Error(`expected ${definition.fields.length} values for message ${definition.globalNum}, got ${values.length}`);
+    }
+    const header = timeOffset === undefined
+        ? definition.localNum
+        : 0x80 | (definition.localNum << 5) | (timeOffset & 0x1F);
+    return Buffer.concat([
+        Buffer.from([header]),
+        ...definition.fields.map((field, i) => writeValue(field, values[i], Boolean(definition.bigEndian))),
+        developerData,
+    ]);
+};
+
+/**
+ * FIT file with a 14 byte header, the header CRC and the file CRC
+ */
+export const fitFile = (messages: Buffer[]): Buffer => {
+    const records = Buffer.concat(messages);
+    const header = Buffer.alloc(14);
+    header.writeUInt8(14, 0);
+    header.writeUInt8(0x20, 1);
+    header.writeUInt16LE(2195, 2);
+    header.writeUInt32LE(records.length, 4);
+    header.write('.FIT', 8, 'ascii');
+    header.writeUInt16LE(crc16(header.subarray(0, 12)), 12);
+    const file = Buffer.concat([header, records, Buffer.alloc(2)]);
+    file.writeUInt16LE(crc16(file.subarray(0, file.length - 2)), file.length - 2);
+    return file;
+};
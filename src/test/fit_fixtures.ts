@@ -0,0 +1,241 @@
+import fs from 'fs';
+import path from 'path';
+import { fitData, fitDefinition, fitFile, FitMessageDefinition, toFitTimestamp, toSemicircles } from './fit_builder';
+
+/**
+ * The FIT fixtures of the tests, a 40 second run with two laps and five records:
+ *   activity.fit     file_id, developer data, device_info, records, an event, big endian laps and a session
+ *   corrupt_crc.fit  activity.fit with the session lap count changed after the CRC was computed
+ * The first two records carry a full timestamp and a developer field, the last three a compressed timestamp,
+ * the last one rolls the 5 bit time offset over. Regenerate the files with:
+ *   npx ts-node src/test/fit_fixtures.ts
+ * forerunner910xt_pool_swim.fit is a real device file, a pool swim recorded by a Forerunner 910XT with four laps and
+ * no records, from the test fixtures of the MIT licensed npm package fit 0.0.1 (github.com/plus3network/fit).
+ */
+
+export const FIXTURE_DIR = path.join(__dirname, 'fixtures');
+export const ACTIVITY_FIT = path.join(FIXTURE_DIR, 'activity.fit');
+export const CORRUPT_CRC_FIT = path.join(FIXTURE_DIR, 'corrupt_crc.fit');
+export const DEVICE_SWIM_FIT = path.join(FIXTURE_DIR, 'forerunner910xt_pool_swim.fit');
+
+// a multiple of 32 seconds after the FIT epoch, so the compressed time offsets are the seconds since the start
+export const START_TIME = new Date('2021-09-08T01:46:40Z');
+export const RECORD_INTERVAL = 10;
+
+export interface FixtureRecord {
+    lat: number;
+    long: number;
+    // meters
+    altitude: number;
+    distance: number;
+    heartRate: number;
+}
+
+// heart rate 0 is a valid FIT value but not a valid TCX one
+export const FIXTURE_RECORDS: FixtureRecord[] = [
+    { lat: 31.2304, long: 121.4737, altitude: 10, distance: 0, heartRate: 120 },
+    { lat: 31.2305, long: 121.4738, altitude: 11, distance: 30, heartRate: 125 },
+    { lat: 31.2306, long: 121.4739, altitude: 12, distance: 60, heartRate: 0 },
+    { lat: 31.2307, long: 121.4740, altitude: 13, distance: 90, heartRate: 130 },
+    { lat: 31.2308, long: 121.4741, altitude: 14, distance: 120, heartRate: 135 },
+];
+
+// records with a full timestamp, the rest are compressed
+const FULL_RECORDS = 2;
+
+export const FIXTURE_SPEED = 3;
+export const FIXTURE_CADENCE = 85;
+export const FIXTURE_POWER = 250;
+export const FIXTURE_PRODUCT_NAME = 'Forerunner 965';
+
+const MESG_FILE_ID = 0;
+const MESG_SESSION = 18;
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+const MESG_EVENT = 21;
+const MESG_DEVICE_INFO = 23;
+const MESG_FIELD_DESCRIPTION = 206;
+const MESG_DEVELOPER_DATA_ID = 207;
+
+const FILE_ID: FitMessageDefinition = {
+    localNum: 0,
+    globalNum: MESG_FILE_ID,
+    fields: [
+        { num: 0, type: 'enum' },
+        { num: 1, type: 'uint16' },
+        { num: 2, type: 'uint16' },
+        { num: 3, type: 'uint32z' },
+        { num: 4, type: 'uint32' },
+    ],
+};
+
+const DEVELOPER_DATA_ID: FitMessageDefinition = {
+    localNum: 1,
+    globalNum: MESG_DEVELOPER_DATA_ID,
+    fields: [{ num: 3, type: 'uint8' }],
+};
+
+const FIELD_DESCRIPTION: FitMessageDefinition = {
+    localNum: 1,
+    globalNum: MESG_FIELD_DESCRIPTION,
+    fields: [
+        { num: 0, type: 'uint8' },
+        { num: 1, type: 'uint8' },
+        { num: 2, type: 'uint8' },
+        { num: 3, type: 'string', size: 8 },
+    ],
+};
+
+const DEVICE_INFO: FitMessageDefinition = {
+    localNum: 1,
+    globalNum: MESG_DEVICE_INFO,
+    fields: [
+        { num: 253, type: 'uint32' },
+        { num: 0, type: 'uint8' },
+        { num: 2, type: 'uint16' },
+        { num: 10, type: 'uint16' },
+        { num: 27, type: 'string', size: 20 },
+    ],
+};
+
+// local message 0 again, redefining a local message type replaces the earlier definition
+const RECORD: FitMessageDefinition = {
+    localNum: 0,
+    globalNum: MESG_RECORD,
+    fields: [
+        { num: 253, type: 'uint32' },
+        { num: 0, type: 'sint32' },
+        { num: 1, type: 'sint32' },
+        { num: 78, type: 'uint32' },
+        { num: 3, type: 'uint8' },
+        { num: 5, type: 'uint32' },
+        { num: 73, type: 'uint32' },
+        { num: 4, type: 'uint8' },
+        { num: 7, type: 'uint16' },
+    ],
+    developerFields: [{ num: 0, size: 2, developerIndex: 0 }],
+};
+
+const COMPRESSED_RECORD: FitMessageDefinition = {
+    localNum: 2,
+    globalNum: MESG_RECORD,
+    fields: [
+        { num: 0, type: 'sint32' },
+        { num: 1, type: 'sint32' },
+        { num: 2, type: 'uint16' },
+        { num: 3, type: 'uint8' },
+        { num: 5, type: 'uint32' },
+    ],
+};
+
+const EVENT: FitMessageDefinition = {
+    localNum: 3,
+    globalNum: MESG_EVENT,
+    fields: [
+        { num: 253, type: 'uint32' },
+        { num: 0, type: 'enum' },
+        { num: 1, type: 'enum' },
+    ],
+};
+
+const LAP: FitMessageDefinition = {
+    localNum: 4,
+    globalNum: MESG_LAP,
+    bigEndian: true,
+    fields: [
+        { num: 253, type: 'uint32' },
+        { num: 2, type: 'uint32' },
+        { num: 7, type: 'uint32' },
+        { num: 8, type: 'uint32' },
+        { num: 9, type: 'uint32' },
+        { num: 11, type: 'uint16' },
+        { num: 15, type: 'uint8' },
+        { num: 16, type: 'uint8' },
+    ],
+};
+
+const SESSION: FitMessageDefinition = {
+    localNum: 5,
+    globalNum: MESG_SESSION,
+    fields: [
+        { num: 253, type: 'uint32' },
+        { num: 2, type: 'uint32' },
+        { num: 5, type: 'enum' },
+        { num: 7, type: 'uint32' },
+        { num: 9, type: 'uint32' },
+        { num: 16, type: 'uint8' },
+        { num: 26, type: 'uint16' },
+    ],
+};
+
+const SPORT_RUNNING = 1;
+
+const recordTime = (index: number): number => toFitTimestamp(START_TIME) + index * RECORD_INTERVAL;
+
+const toRecordMessage = (record: FixtureRecord, index: number): Buffer => {
+    const position = [toSemicircles(record.lat), toSemicircles(record.long)];
+    if (index < FULL_RECORDS) {
+        const developerData = Buffer.alloc(2);
+        developerData.writeUInt16LE(1000 + index);
+        return fitData(RECORD, [
+            recordTime(index), ...position, (record.altitude + 500) * 5, record.heartRate, record.distance * 100,
+            FIXTURE_SPEED * 1000, FIXTURE_CADENCE, FIXTURE_POWER,
+        ], developerData);
+    }
+    return fitData(COMPRESSED_RECORD, [
+        ...position, (record.altitude + 500) * 5, record.heartRate, record.distance * 100,
+    ], undefined, recordTime(index) % 32);
+};
+
+const toLapMessage = (first: number, last: number): Buffer => {
+    const seconds = (last - first) * RECORD_INTERVAL;
+    const records = FIXTURE_RECORDS.slice(first, last + 1);
+    const heartRates = records.map(record => record.heartRate);
+    return fitData(LAP, [
+        recordTime(last), recordTime(first), seconds * 1000, seconds * 1000,
+        (records[records.length - 1].distance - records[0].distance) * 100, 10,
+        Math.round(heartRates.reduce((sum, hr) => sum + hr, 0) / heartRates.length), Math.max(...heartRates),
+    ]);
+};
+
+export const buildActivityFit = (): Buffer => {
+    const last = FIXTURE_RECORDS.length - 1;
+    return fitFile([
+        fitDefinition(FILE_ID),
+        fitData(FILE_ID, [4, 1, 4315, 3412345678, toFitTimestamp(START_TIME)]),
+        fitDefinition(DEVELOPER_DATA_ID),
+        fitData(DEVELOPER_DATA_ID, [0]),
+        fitDefinition(FIELD_DESCRIPTION),
+        fitData(FIELD_DESCRIPTION, [0, 0, 0x84, 'Doughnut']),
+        fitDefinition(DEVICE_INFO),
+        fitData(DEVICE_INFO, [toFitTimestamp(START_TIME), 0, 4315, 4 * 256, FIXTURE_PRODUCT_NAME]),
+        fitDefinition(RECORD),
+        ...FIXTURE_RECORDS.slice(0, FULL_RECORDS).map(toRecordMessage),
+        fitDefinition(COMPRESSED_RECORD),
+        ...FIXTURE_RECORDS.map(toRecordMessage).slice(FULL_RECORDS),
+        fitDefinition(EVENT),
+        fitData(EVENT, [recordTime(last), 0, 4]),
+        fitDefinition(LAP),
+        toLapMessage(0, 2),
+        toLapMessage(2, last),
+        fitDefinition(SESSION),
+        fitData(SESSION, [
+            recordTime(last), recordTime(0), SPORT_RUNNING, last * RECORD_INTERVAL * 1000,
+            FIXTURE_RECORDS[last].distance * 100, 122, 2,
+        ]),
+    ]);
+};
+
+export const buildCorruptCrcFit = (): Buffer => {
+    const file = buildActivityFit();
+    // the high byte of num_laps, the last field before the file CRC: 2 -> 258
+    file.writeUInt8(1, file.length - 3);
+    return file;
+};
+
+if (require.main === module) {
+    fs.mkdirSync(FIXTURE_DIR, { recursive: true });
+    fs.writeFileSync(ACTIVITY_FIT, buildActivityFit());
+    fs.writeFileSync(CORRUPT_CRC_FIT, buildCorruptCrcFit());
+    console.log(`FIT fixtures written to ${FIXTURE_DIR}`);
+}
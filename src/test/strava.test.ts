@@ -0,0 +1,258 @@
+import assert from 'assert';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import _ from 'lodash';
+import { AddressInfo } from 'net';
+import { loadConfig } from '../utils/config';
+import { createStravaEndpoint, getStravaAccessToken, StravaAuthError, uploadStravaActivity } from '../utils/strava';
+import { getStravaTokenFromDB, getSyncLedgerEntries, initStravaTokenTable, saveStravaTokenToDB } from '../utils/sqlite';
+import { SyncEndpoint, syncBetweenEndpoints } from '../utils/sync_endpoint';
+import { ACTIVITY_FIT } from './fit_fixtures';
+
+const { describe, it, before, after, beforeEach } = require('node:test');
+
+interface MockRequest {
+    method: string;
+    path: string;
+    query: URLSearchParams;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+}
+
+type MockResponse = [number, Record<string, any>];
+
+/**
+ * Strava API on localhost, answering "METHOD /path" with the handler of the route
+ */
+const createMockStrava = () => {
+    const requests: MockRequest[] = [];
+    let routes: Record<string, (request: MockRequest) => MockResponse> = {};
+    const server = http.createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => {
+            const url = new URL(req.url ?? '', 'http://127.0.0.1');
+            const request = { method: req.method ?? '', path: url.pathname, query: url.searchParams, headers: req.headers, body: Buffer.concat(chunks).toString() };
+            requests.push(request);
+            const handler = routes[`${request.method} ${request.path}`];
+            const [status, body] = handler ? handler(request) : [404, { message: 'Record Not Found' }];
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        });
+    });
+    return {
+        server,
+        requests,
+        setRoutes: (next: typeof routes) => {
+            routes = next;
+            requests.length = 0;
+        },
+        find: (method: string, requestPath: string) => requests.filter(r => r.method === method && r.path === requestPath),
+    };
+};
+
+const ENV = {
+    STRAVA_CLIENT_ID: '1234',
+    STRAVA_CLIENT_SECRET: 'client-secret',
+    STRAVA_REFRESH_TOKEN: 'refresh-from-env',
+    STRAVA_ACCESS_TOKEN: '',
+    AESKEY: 'strava-test-key',
+};
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const saveValidToken = () => saveStravaTokenToDB({ access_token: 'access-valid', refresh_token: 'refresh-saved', expires_at: nowSeconds() + 3600 });
+
+const SOURCE_ACTIVITIES = [
+    {
+        activityId: '101',
+        activityName: 'Morning Run',
+        description: 'easy',
+        startTimeLocal: '2021-09-08 09:46:40',
+        startTimeGMT: '2021-09-08 01:46:40',
+        duration: 40,
+        distance: 120,
+        activityType: { typeKey: 'running' },
+    },
+    {
+        activityId: '102',
+        activityName: 'Evening Run',
+        startTimeLocal: '2021-09-08 19:00:00',
+        startTimeGMT: '2021-09-08 11:00:00',
+        duration: 1800,
+        distance: 5000,
+        activityType: { typeKey: 'running' },
+    },
+];
+
+// Garmin CN with the fixture as the original file of every activity
+const createSourceEndpoint = (acts: Record<string, any>[]): SyncEndpoint => ({
+    name: 'cn',
+    service: 'CN',
+    listActivities: async (start, limit) => acts.slice(start, start + limit),
+    downloadOriginal: async () => ACTIVITY_FIT,
+    upload: async () => ({ status: 'FAILED' }),
+    hasMetadata: true,
+    updateMetadata: async () => undefined,
+});
+
+describe('Strava', () => {
+    const mock = createMockStrava();
+    const savedEnv: Record<string, string | undefined> = {};
+    const cwd = process.cwd();
+    let tempDir = '';
+
+    before(async () => {
+        await new Promise<void>(resolve => mock.server.listen(0, '127.0.0.1', resolve));
+        // the database and downloads are relative to the working directory
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dailysync-test-'));
+        fs.mkdirSync(path.join(tempDir, 'db'));
+        process.chdir(tempDir);
+        const env = { ...ENV, STRAVA_API_URL: `http://127.0.0.1:${(mock.server.address() as AddressInfo).port}/api/v3` };
+        for (const [key, value] of Object.entries(env)) {
+            savedEnv[key] = process.env[key];
+            process.env[key] = value;
+        }
+        loadConfig();
+        await initStravaTokenTable();
+    });
+
+    after(async () => {
+        await new Promise(resolve => mock.server.close(resolve));
+        process.chdir(cwd);
+        fs.rmSync(tempDir, { recursive: true, force: true });
+        for (const [key, value] of Object.entries(savedEnv)) {
+            if (value === undefined) {
+                delete process.env[key];
+            } else {
+                process.env[key] = value;
+            }
+        }
+    });
+
+    beforeEach(() => mock.setRoutes({}));
+
+    it('refreshes the token and saves the rotated refresh token', async () => {
+        let issued = 0;
+        mock.setRoutes({
+            'POST /api/v3/oauth/token': () => {
+                issued++;
+                return [200, { access_token: `access-${issued}`, refresh_token: `refresh-${issued}`, expires_at: nowSeconds() + 21600, athlete: { id: 42 } }];
+            },
+        });
+
+        assert.strictEqual(await getStravaAccessToken(), 'access-1');
+        const [first] = mock.find('POST', '/api/v3/oauth/token');
+        assert.deepStrictEqual(JSON.parse(first.body), {
+            client_id: ENV.STRAVA_CLIENT_ID,
+            client_secret: ENV.STRAVA_CLIENT_SECRET,
+            grant_type: 'refresh_token',
+            refresh_token: ENV.STRAVA_REFRESH_TOKEN,
+        });
+        assert.strictEqual((await getStravaTokenFromDB())?.refresh_token, 'refresh-1');
+
+        // still valid, no new request
+        assert.strictEqual(await getStravaAccessToken(), 'access-1');
+        assert.strictEqual(mock.find('POST', '/api/v3/oauth/token').length, 1);
+
+        // expired, refreshed with the saved token instead of STRAVA_REFRESH_TOKEN
+        await saveStravaTokenToDB({ access_token: 'access-1', refresh_token: 'refresh-1', expires_at: nowSeconds() - 60 });
+        assert.strictEqual(await getStravaAccessToken(), 'access-2');
+        assert.strictEqual(JSON.parse(mock.find('POST', '/api/v3/oauth/token')[1].body).refresh_token, 'refresh-1');
+        assert.strictEqual((await getStravaTokenFromDB())?.refresh_token, 'refresh-2');
+    });
+
+    it('fails with a StravaAuthError when the refresh token is refused', async () => {
+        await saveStravaTokenToDB({ access_token: 'access-old', refresh_token: 'refresh-revoked', expires_at: nowSeconds() - 60 });
+        mock.setRoutes({
+            'POST /api/v3/oauth/token': () => [401, { message: 'Authorization Error' }],
+        });
+
+        await assert.rejects(getStravaAccessToken(), (e: any) => e instanceof StravaAuthError && /status: 401/.test(e.message));
+        const upload = await uploadStravaActivity(ACTIVITY_FIT);
+        assert.strictEqual(upload.status, 'AUTH_FAILED');
+        assert.match(upload.message ?? '', /dailysync strava auth/);
+        assert.strictEqual(mock.find('POST', '/api/v3/uploads').length, 0);
+    });
+
+    it('maps 401 and 429 upload responses', async () => {
+        await saveValidToken();
+        mock.setRoutes({ 'POST /api/v3/uploads': () => [401, { message: 'Authorization Error' }] });
+        assert.deepStrictEqual(await uploadStravaActivity(ACTIVITY_FIT), { status: 'AUTH_FAILED', message: 'Authorization Error' });
+
+        mock.setRoutes({ 'POST /api/v3/uploads': () => [429, { message: 'Rate Limit Exceeded' }] });
+        assert.deepStrictEqual(await uploadStravaActivity(ACTIVITY_FIT), { status: 'RATE_LIMITED', message: 'Rate Limit Exceeded' });
+    });
+
+    it('uploads, polls the upload and records the Strava activity in the sync ledger', async () => {
+        await saveValidToken();
+        mock.setRoutes({
+            'GET /api/v3/athlete/activities': () => [200, []],
+            'POST /api/v3/uploads': () => [201, { id: 9001, id_str: '9001', status: 'Your activity is still being processed.', error: null, activity_id: null }],
+            'GET /api/v3/uploads/9001': () => [200, { id: 9001, id_str: '9001', status: 'Your activity is ready.', error: null, activity_id: 777 }],
+            'PUT /api/v3/activities/777': () => [200, { id: 777 }],
+        });
+
+        await syncBetweenEndpoints(createSourceEndpoint(SOURCE_ACTIVITIES.slice(0, 1)), createStravaEndpoint({ pollInterval: 0 }), { count: 10 });
+
+        const [upload] = mock.find('POST', '/api/v3/uploads');
+        assert.strictEqual(upload.headers.authorization, 'Bearer access-valid');
+        assert.match(upload.body, /name="data_type"\r\n\r\nfit\r\n/);
+        assert.match(upload.body, /name="external_id"\r\n\r\ngarmin-cn-101\r\n/);
+        assert.strictEqual(mock.find('GET', '/api/v3/uploads/9001').length, 1);
+        assert.deepStrictEqual(JSON.parse(mock.find('PUT', '/api/v3/activities/777')[0].body), { name: 'Morning Run', description: 'easy' });
+        const [entry] = await getSyncLedgerEntries('CN', 'STRAVA', ['101']);
+        assert.strictEqual(entry.status, 'SYNCED');
+        assert.strictEqual(entry.destActivityId, '777');
+
+        // synced activities are skipped on the next run
+        mock.setRoutes({ 'GET /api/v3/athlete/activities': () => [200, []] });
+        await syncBetweenEndpoints(createSourceEndpoint(SOURCE_ACTIVITIES.slice(0, 1)), createStravaEndpoint({ pollInterval: 0 }), { count: 10 });
+        assert.strictEqual(mock.find('POST', '/api/v3/uploads').length, 0);
+    });
+
+    it('pages the activity list by 200', async () => {
+        await saveValidToken();
+        // 450 activities, the ids are the list positions
+        mock.setRoutes({
+            'GET /api/v3/athlete/activities': ({ query }) => {
+                const perPage = Number(query.get('per_page'));
+                const first = (Number(query.get('page')) - 1) * perPage;
+                return [200, _.range(first, Math.min(first + perPage, 450)).map(id => ({ id, name: `Run ${id}`, sport_type: 'Run' }))];
+            },
+        });
+        const endpoint = createStravaEndpoint();
+
+        const acts = await endpoint.listActivities(0, 500);
+        assert.deepStrictEqual(acts.map(act => Number(act.activityId)), _.range(450));
+        assert.deepStrictEqual(
+            mock.find('GET', '/api/v3/athlete/activities').map(r => [r.query.get('per_page'), r.query.get('page')]),
+            [['200', '1'], ['200', '2'], ['200', '3']],
+        );
+
+        mock.setRoutes({ 'GET /api/v3/athlete/activities': ({ query }) => [200, _.range((Number(query.get('page')) - 1) * 200, Number(query.get('page')) * 200).map(id => ({ id }))] });
+        const offsetActs = await endpoint.listActivities(150, 100);
+        assert.deepStrictEqual(offsetActs.map(act => Number(act.activityId)), _.range(150, 250));
+        assert.deepStrictEqual(mock.find('GET', '/api/v3/athlete/activities').map(r => r.query.get('page')), ['1', '2']);
+    });
+
+    it('stops the sync at the first rate limited upload', async () => {
+        await saveValidToken();
+        mock.setRoutes({
+            'GET /api/v3/athlete/activities': () => [200, []],
+            'POST /api/v3/uploads': () => [429, { message: 'Rate Limit Exceeded' }],
+        });
+        const acts = SOURCE_ACTIVITIES.map(act => ({ ...act, activityId: `2${act.activityId}` }));
+
+        await syncBetweenEndpoints(createSourceEndpoint(acts), createStravaEndpoint({ pollInterval: 0 }), { count: 10 });
+
+        assert.strictEqual(mock.find('POST', '/api/v3/uploads').length, 1);
+        const entries = await getSyncLedgerEntries('CN', 'STRAVA', acts.map(act => act.activityId));
+        assert.deepStrictEqual(entries.map(e => [e.sourceActivityId, e.status]), [['2101', 'FAILED']]);
+        // the sync report marks the run as failed
+        assert.strictEqual(process.exitCode, 1);
+        process.exitCode = undefined;
+    });
+});
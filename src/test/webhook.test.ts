@@ -0,0 +1,171 @@
+import assert from 'assert';
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import _ from 'lodash';
+import { loadConfig } from '../utils/config';
+import { emitWebhookEvent, signWebhookPayload, waitForWebhookDeliveries } from '../utils/webhook';
+
+const { describe, it, before, after, beforeEach } = require('node:test');
+
+interface MockDelivery {
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+    // milliseconds since the mock started
+    receivedAt: number;
+}
+
+/**
+ * Webhook receiver on localhost, reset answers the next deliveries in turn with the given statuses, 200 after them,
+ * each delay milliseconds after it arrived
+ */
+const createMockReceiver = () => {
+    const deliveries: MockDelivery[] = [];
+    const answered: string[] = [];
+    let statuses: number[] = [];
+    let delay = 0;
+    const startedAt = Date.now();
+    const server = http.createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => {
+            deliveries.push({ path: req.url ?? '', headers: req.headers, body: Buffer.concat(chunks).toString(), receivedAt: Date.now() - startedAt });
+            const status = statuses.shift() ?? 200;
+            setTimeout(() => {
+                answered.push(req.url ?? '');
+                res.writeHead(status);
+                res.end();
+            }, delay);
+        });
+    });
+    return {
+        server,
+        deliveries,
+        answered,
+        reset: (next: { statuses?: number[]; delay?: number } = {}) => {
+            statuses = next.statuses ?? [];
+            delay = next.delay ?? 0;
+            deliveries.length = 0;
+            answered.length = 0;
+        },
+        url: (hookPath: string) => `http://127.0.0.1:${(server.address() as AddressInfo).port}${hookPath}`,
+    };
+};
+
+const ENV_KEYS = ['WEBHOOK_URLS', 'WEBHOOK_SECRET', 'WEBHOOK_EVENTS', 'WEBHOOK_MAX_ATTEMPTS', 'WEBHOOK_RETRY_DELAY'];
+
+const ACTIVITY = { activityId: '101', activityName: 'Morning Run' };
+
+describe('Webhook', () => {
+    const mock = createMockReceiver();
+    const savedEnv: Record<string, string | undefined> = {};
+
+    const configure = (env: Record<string, string>) => {
+        for (const key of ENV_KEYS) {
+            delete process.env[key];
+        }
+        Object.assign(process.env, { WEBHOOK_URLS: mock.url('/hook'), WEBHOOK_RETRY_DELAY: '20', ...env });
+        loadConfig();
+    };
+
+    before(async () => {
+        await new Promise<void>(resolve => mock.server.listen(0, '127.0.0.1', resolve));
+        for (const key of ENV_KEYS) {
+            savedEnv[key] = process.env[key];
+        }
+    });
+
+    after(async () => {
+        await new Promise(resolve => mock.server.close(resolve));
+        for (const [key, value] of Object.entries(savedEnv)) {
+            if (value === undefined) {
+                delete process.env[key];
+            } else {
+                process.env[key] = value;
+            }
+        }
+        loadConfig();
+    });
+
+    beforeEach(() => mock.reset());
+
+    it('signs the timestamp and body with the secret', async () => {
+        configure({ WEBHOOK_SECRET: 'hook-secret' });
+
+        emitWebhookEvent('activity.synced', ACTIVITY);
+        await waitForWebhookDeliveries();
+
+        const [delivery] = mock.deliveries;
+        const timestamp = delivery.headers['x-dailysync-timestamp'] as string;
+        const expected = crypto.createHmac('sha256', 'hook-secret').update(`${timestamp}.${delivery.body}`).digest('hex');
+        assert.strictEqual(delivery.headers['x-dailysync-signature'], `sha256=${expected}`);
+        assert.strictEqual(signWebhookPayload('hook-secret', timestamp, delivery.body), `sha256=${expected}`);
+        assert.strictEqual(delivery.headers['x-dailysync-event'], 'activity.synced');
+        const payload = JSON.parse(delivery.body);
+        assert.strictEqual(payload.id, delivery.headers['x-dailysync-delivery']);
+        assert.strictEqual(payload.event, 'activity.synced');
+        assert.deepStrictEqual(payload.data, ACTIVITY);
+    });
+
+    it('leaves the signature out without a secret', async () => {
+        configure({});
+
+        emitWebhookEvent('activity.synced', ACTIVITY);
+        await waitForWebhookDeliveries();
+
+        assert.strictEqual(mock.deliveries.length, 1);
+        assert.strictEqual(mock.deliveries[0].headers['x-dailysync-signature'], undefined);
+    });
+
+    it('retries 5xx and 429 responses with backoff under the same delivery id', async () => {
+        configure({ WEBHOOK_MAX_ATTEMPTS: '4' });
+        mock.reset({ statuses: [503, 429] });
+
+        emitWebhookEvent('activity.sync_failed', ACTIVITY);
+        await waitForWebhookDeliveries();
+
+        assert.strictEqual(mock.deliveries.length, 3);
+        assert.strictEqual(new Set(mock.deliveries.map(d => d.headers['x-dailysync-delivery'])).size, 1);
+        const [first, second, third] = mock.deliveries.map(d => d.receivedAt);
+        assert.ok(second - first >= 20, `first retry after ${second - first}ms`);
+        assert.ok(third - second >= 40, `second retry after ${third - second}ms`);
+    });
+
+    it('gives up after WEBHOOK_MAX_ATTEMPTS and at the first other 4xx response', async () => {
+        configure({ WEBHOOK_MAX_ATTEMPTS: '2' });
+        mock.reset({ statuses: [500, 500, 500] });
+        emitWebhookEvent('activity.synced', ACTIVITY);
+        await waitForWebhookDeliveries();
+        assert.strictEqual(mock.deliveries.length, 2);
+
+        mock.reset({ statuses: [400] });
+        emitWebhookEvent('activity.synced', ACTIVITY);
+        await waitForWebhookDeliveries();
+        assert.strictEqual(mock.deliveries.length, 1);
+    });
+
+    it('only sends the events of WEBHOOK_EVENTS', async () => {
+        configure({ WEBHOOK_EVENTS: 'activity.synced, migration.completed' });
+
+        emitWebhookEvent('insight.generated', ACTIVITY);
+        emitWebhookEvent('activity.sync_failed', ACTIVITY);
+        emitWebhookEvent('migration.completed', { migrated: 3 });
+        await waitForWebhookDeliveries();
+
+        assert.deepStrictEqual(mock.deliveries.map(d => d.headers['x-dailysync-event']), ['migration.completed']);
+    });
+
+    it('waits for the deliveries to every URL', async () => {
+        configure({ WEBHOOK_URLS: `${mock.url('/first')},${mock.url('/second')}` });
+        mock.reset({ statuses: [503], delay: 30 });
+
+        emitWebhookEvent('activity.synced', ACTIVITY);
+        assert.deepStrictEqual(mock.answered, []);
+        await waitForWebhookDeliveries();
+
+        // the first request got a 503, its retry was answered before the wait ended too
+        assert.strictEqual(mock.answered.length, 3);
+        assert.deepStrictEqual(_.uniq(mock.answered).sort(), ['/first', '/second']);
+    });
+});
@@ -0,0 +1,141 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig } from '../utils/config';
+import { getWellnessCheckpoint, getWellnessEntries, initWellnessCheckpointTable, saveWellnessCheckpoint } from '../utils/sqlite';
+import { GarminClientType } from '../utils/type';
+import { getWellnessSyncRange, syncWellness } from '../utils/wellness';
+
+const { describe, it, before, after } = require('node:test');
+
+const GC_API = 'https://connect.example/gc-api';
+
+interface MockCall {
+    method: string;
+    path: string;
+    body?: Record<string, any>;
+}
+
+/**
+ * Garmin Connect client answering GET requests with the data of the route, 404 for anything else
+ * @param failPosts POST paths answered with a server error
+ */
+const createMockClient = (routes: Record<string, any>, failPosts: string[] = []) => {
+    const calls: MockCall[] = [];
+    const toPath = (url: string) => url.replace(GC_API, '');
+    const client = {
+        url: { GC_API },
+        getUserProfile: async () => ({ displayName: 'runner' }),
+        client: {
+            get: async (url: string) => {
+                calls.push({ method: 'GET', path: toPath(url) });
+                if (!(toPath(url) in routes)) {
+                    throw { message: 'Not Found', response: { status: 404 } };
+                }
+                return routes[toPath(url)];
+            },
+            post: async (url: string, body: Record<string, any>) => {
+                calls.push({ method: 'POST', path: toPath(url), body });
+                if (failPosts.includes(toPath(url))) {
+                    throw { message: 'Internal Server Error', response: { status: 500 } };
+                }
+                return {};
+            },
+        },
+    };
+    return {
+        client: client as unknown as GarminClientType,
+        posts: (postPath: string) => calls.filter(c => c.method === 'POST' && c.path === postPath),
+    };
+};
+
+// 2024-03-01 08:00:00 UTC
+const WEIGH_IN_MS = 1709280000000;
+
+const weightDay = (date: string, weighIns: Record<string, any>[]) => ({ [`/weight-service/weight/dayview/${date}`]: { dateWeightList: weighIns } });
+
+const hydrationDay = (date: string, valueInML: number) => ({ [`/usersummary-service/usersummary/hydration/daily/${date}`]: { valueInML, goalInML: 2000 } });
+
+describe('Wellness', () => {
+    const cwd = process.cwd();
+    let tempDir = '';
+
+    before(async () => {
+        // the database is relative to the working directory
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dailysync-test-'));
+        fs.mkdirSync(path.join(tempDir, 'db'));
+        process.chdir(tempDir);
+        loadConfig();
+        await initWellnessCheckpointTable();
+    });
+
+    after(() => {
+        process.chdir(cwd);
+        fs.rmSync(tempDir, { recursive: true, force: true });
+        process.exitCode = undefined;
+    });
+
+    it('reaches back to the day after the checkpoint when the last days start later', async () => {
+        assert.deepStrictEqual(await getWellnessSyncRange('GLOBAL', 'CN', 3, '2024-03-10'), { since: '2024-03-08', until: '2024-03-10' });
+
+        await saveWellnessCheckpoint('GLOBAL', 'CN', '2024-03-04');
+        assert.deepStrictEqual(await getWellnessSyncRange('GLOBAL', 'CN', 3, '2024-03-10'), { since: '2024-03-05', until: '2024-03-10' });
+
+        await saveWellnessCheckpoint('GLOBAL', 'CN', '2024-03-09');
+        assert.deepStrictEqual(await getWellnessSyncRange('GLOBAL', 'CN', 3, '2024-03-10'), { since: '2024-03-08', until: '2024-03-10' });
+    });
+
+    it('writes only the weigh-ins and hydration the destination does not have', async () => {
+        const source = createMockClient({
+            ...weightDay('2024-03-01', [
+                { date: WEIGH_IN_MS, timestampGMT: WEIGH_IN_MS, weight: 70000 },
+                { date: WEIGH_IN_MS + 3600000, timestampGMT: WEIGH_IN_MS + 3600000, weight: 69500 },
+            ]),
+            ...hydrationDay('2024-03-01', 1500),
+            ...hydrationDay('2024-03-02', 800),
+        });
+        const dest = createMockClient({
+            // the same weigh-in, recorded 30 seconds apart
+            ...weightDay('2024-03-01', [{ date: WEIGH_IN_MS + 30000, timestampGMT: WEIGH_IN_MS + 30000, weight: 70000 }]),
+            ...hydrationDay('2024-03-01', 1000),
+            ...hydrationDay('2024-03-02', 800),
+        });
+
+        const summary = await syncWellness('CN', 'GLOBAL', { since: '2024-03-01', until: '2024-03-02' }, { source: source.client, dest: dest.client });
+
+        const weighIns = dest.posts('/weight-service/user-weight');
+        assert.deepStrictEqual(weighIns.map(c => [c.body!.gmtTimestamp, c.body!.value]), [['2024-03-01T09:00:00.000', 69.5]]);
+        const intakes = dest.posts('/usersummary-service/usersummary/hydration/log');
+        assert.deepStrictEqual(intakes.map(c => [c.body!.calendarDate, c.body!.valueInML]), [['2024-03-01', 500]]);
+        assert.deepStrictEqual(summary.counts, { WRITTEN: 2, PRESENT: 1, LOCAL: 0, FAILED: 0 });
+        const entries = await getWellnessEntries('CN', '2024-03-01', '2024-03-02');
+        assert.deepStrictEqual(entries.map(e => [e.calendarDate, e.metric, e.status]), [
+            ['2024-03-01', 'hydration', 'WRITTEN'],
+            ['2024-03-01', 'weight', 'WRITTEN'],
+            ['2024-03-02', 'hydration', 'PRESENT'],
+        ]);
+        assert.strictEqual(await getWellnessCheckpoint('CN', 'GLOBAL'), '2024-03-02');
+    });
+
+    it('keeps the checkpoint before the first day a metric failed to write', async () => {
+        await saveWellnessCheckpoint('CN', 'GLOBAL', '2024-04-01');
+        const source = createMockClient({
+            ...hydrationDay('2024-04-02', 1200),
+            ...weightDay('2024-04-03', [{ date: WEIGH_IN_MS, timestampGMT: WEIGH_IN_MS, weight: 70000 }]),
+            ...hydrationDay('2024-04-04', 900),
+        });
+        const dest = createMockClient({}, ['/weight-service/user-weight']);
+
+        const summary = await syncWellness('CN', 'GLOBAL', { since: '2024-04-02', until: '2024-04-04' }, { source: source.client, dest: dest.client });
+
+        // a failed write is not fatal, the days after it are still synced
+        assert.strictEqual(summary.stopped, undefined);
+        assert.deepStrictEqual(summary.counts, { WRITTEN: 2, PRESENT: 0, LOCAL: 0, FAILED: 1 });
+        assert.strictEqual(dest.posts('/usersummary-service/usersummary/hydration/log').length, 2);
+        assert.strictEqual(await getWellnessCheckpoint('CN', 'GLOBAL'), '2024-04-02');
+        assert.deepStrictEqual(await getWellnessSyncRange('CN', 'GLOBAL', 1, '2024-04-04'), { since: '2024-04-03', until: '2024-04-04' });
+        assert.strictEqual(process.exitCode, 1);
+        process.exitCode = undefined;
+    });
+});
@@ -0,0 +1,229 @@
+import fs from 'fs';
+import path from 'path';
+import { FILE_SUFFIX } from '../constant';
+import { FitActivity, FitLap, FitRecord, readFitFile } from './fit';
+import { resolveArchivePath } from './archive';
+import { ArchiveEntry } from './sqlite';
+
+/**
+ * Conversion of archived FIT activities to GPX 1.1 and TCX (Training Center Database v2)
+ * GPX has the track with heart rate, cadence and temperature in the Garmin TrackPointExtension v1,
+ * TCX has laps with heart rate, cadence and power (ActivityExtension v2). Both write the elements in the order of the schemas,
+ * the tests check that order with rules copied from them; the files are not validated against the XSDs.
+ */
+
+export type ExportFormat = 'gpx' | 'tcx';
+
+export const EXPORT_FORMATS: ExportFormat[] = [FILE_SUFFIX.GPX as ExportFormat, FILE_SUFFIX.TCX as ExportFormat];
+
+const GPX_NAMESPACES = [
+    'xmlns="http://www.topografix.com/GPX/1/1"',
+    'xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1"',
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    'xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd http://www.garmin.com/xmlschemas/TrackPointExtension/v1 http://www.garmin.com/xmlschemas/TrackPointExtensionv1.xsd"',
+].join(' ');
+
+const TCX_NAMESPACES = [
+    'xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"',
+    'xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2"',
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    'xsi:schemaLocation="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2 http://www.garmin.com/xmlschemas/TrainingCenterDatabasev2.xsd http://www.garmin.com/xmlschemas/ActivityExtension/v2 http://www.garmin.com/xmlschemas/ActivityExtensionv2.xsd"',
+].join(' ');
+
+const CREATOR = 'garmin-daily-sync';
+
+const escapeXml = (text: string): string => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const formatTime = (date: Date): string => date.toISOString().replace('.000Z', 'Z');
+
+const isDefined = (value: number | undefined): value is number => value !== undefined && Number.isFinite(value);
+
+// unsignedByte, heart rate must be at least 1 in TCX
+const toByte = (value: number | undefined, min = 0): number | undefined => {
+    if (!isDefined(value)) {
+        return undefined;
+    }
+    const rounded = Math.round(value);
+    return rounded >= min && rounded <= 255 ? rounded : undefined;
+};
+
+const hasPosition = (record: FitRecord): boolean => isDefined(record.positionLat) && isDefined(record.positionLong);
+
+const getSport = (activity: FitActivity): string => activity.sessions[0]?.sport ?? 'generic';
+
+const getStartTime = (activity: FitActivity): Date | undefined => {
+    return activity.sessions[0]?.startTime ?? activity.laps[0]?.startTime ?? activity.records[0]?.timestamp ?? activity.fileId?.timeCreated;
+};
+
+/**
+ * GPX 1.1, records without a position are left out since trkpt requires one
+ */
+export const toGpx = (activity: FitActivity, name?: string): string => {
+    const startTime = getStartTime(activity);
+    const points = activity.records.filter(hasPosition).map(record => {
+        const hr = toByte(record.heartRate, 1);
+        const cad = toByte(record.cadence);
+        const extension = [
+            isDefined(record.temperature) ? `<gpxtpx:atemp>${record.temperature}</gpxtpx:atemp>` : '',
+            hr !== undefined ? `<gpxtpx:hr>${hr}</gpxtpx:hr>` : '',
+            cad !== undefined ? `<gpxtpx:cad>${cad}</gpxtpx:cad>` : '',
+        ].join('');
+        return [
+            `      <trkpt lat="${record.positionLat!.toFixed(7)}" lon="${record.positionLong!.toFixed(7)}">`,
+            isDefined(record.altitude) ? `        <ele>${record.altitude.toFixed(1)}</ele>` : '',
+            `        <time>${formatTime(record.timestamp)}</time>`,
+            extension ? `        <extensions><gpxtpx:TrackPointExtension>${extension}</gpxtpx:TrackPointExtension></extensions>` : '',
+            '      </trkpt>',
+        ].filter(Boolean).join('\n');
+    });
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<gpx version="1.1" creator="${CREATOR}" ${GPX_NAMESPACES}>`,
+        '  <metadata>',
+        name ? `    <name>${escapeXml(name)}</name>` : '',
+        startTime ? `    <time>${formatTime(startTime)}</time>` : '',
+        '  </metadata>',
+        '  <trk>',
+        name ? `    <name>${escapeXml(name)}</name>` : '',
+        `    <type>${escapeXml(getSport(activity))}</type>`,
+        '    <trkseg>',
+        ...points,
+        '    </trkseg>',
+        '  </trk>',
+        '</gpx>',
+        '',
+    ].filter(Boolean).join('\n');
+};
+
+const getTcxSport = (sport: string): 'Running' | 'Biking' | 'Other' => {
+    if (sport === 'running') {
+        return 'Running';
+    }
+    return sport === 'cycling' || sport === 'e_biking' ? 'Biking' : 'Other';
+};
+
+/**
+ * Laps of the activity, one lap over the whole session or track if the file has none
+ */
+const getLaps = (activity: FitActivity): FitLap[] => {
+    if (activity.laps.length > 0) {
+        return activity.laps;
+    }
+    const session = activity.sessions[0];
+    const first = activity.records[0];
+    const last = activity.records[activity.records.length - 1];
+    const startTime = session?.startTime ?? first?.timestamp;
+    if (!startTime) {
+        return [];
+    }
+    return [{
+        ...session,
+        startTime,
+        totalElapsedTime: session?.totalElapsedTime ?? (last ? (last.timestamp.getTime() - startTime.getTime()) / 1000 : 0),
+        totalDistance: session?.totalDistance ?? last?.distance,
+    }];
+};
+
+const toTcxTrackpoint = (record: FitRecord, running: boolean): string => {
+    const hr = toByte(record.heartRate, 1);
+    const cad = record.cadence !== undefined && record.cadence <= 254 ? toByte(record.cadence) : undefined;
+    const extension = [
+        isDefined(record.speed) ? `<ns3:Speed>${record.speed.toFixed(3)}</ns3:Speed>` : '',
+        running && cad !== undefined ? `<ns3:RunCadence>${cad}</ns3:RunCadence>` : '',
+        isDefined(record.power) ? `<ns3:Watts>${Math.round(record.power)}</ns3:Watts>` : '',
+    ].join('');
+    return [
+        '          <Trackpoint>',
+        `            <Time>${formatTime(record.timestamp)}</Time>`,
+        hasPosition(record) ? `            <Position><LatitudeDegrees>${record.positionLat!.toFixed(7)}</LatitudeDegrees><LongitudeDegrees>${record.positionLong!.toFixed(7)}</LongitudeDegrees></Position>` : '',
+        isDefined(record.altitude) ? `            <AltitudeMeters>${record.altitude.toFixed(1)}</AltitudeMeters>` : '',
+        isDefined(record.distance) ? `            <DistanceMeters>${record.distance.toFixed(2)}</DistanceMeters>` : '',
+        hr !== undefined ? `            <HeartRateBpm><Value>${hr}</Value></HeartRateBpm>` : '',
+        !running && cad !== undefined ? `            <Cadence>${cad}</Cadence>` : '',
+        extension ? `            <Extensions><ns3:TPX>${extension}</ns3:TPX></Extensions>` : '',
+        '          </Trackpoint>',
+    ].filter(Boolean).join('\n');
+};
+
+const toTcxLap = (lap: FitLap, records: FitRecord[], running: boolean): string => {
+    const avgHr = toByte(lap.avgHeartRate, 1);
+    const maxHr = toByte(lap.maxHeartRate, 1);
+    const cad = toByte(lap.avgCadence);
+    const extension = [
+        isDefined(lap.avgSpeed) ? `<ns3:AvgSpeed>${lap.avgSpeed.toFixed(3)}</ns3:AvgSpeed>` : '',
+        running && cad !== undefined ? `<ns3:AvgRunCadence>${cad}</ns3:AvgRunCadence>` : '',
+        isDefined(lap.avgPower) ? `<ns3:AvgWatts>${Math.round(lap.avgPower)}</ns3:AvgWatts>` : '',
+        isDefined(lap.maxPower) ? `<ns3:MaxWatts>${Math.round(lap.maxPower)}</ns3:MaxWatts>` : '',
+    ].join('');
+    return [
+        `      <Lap StartTime="${formatTime(lap.startTime!)}">`,
+        `        <TotalTimeSeconds>${(lap.totalTimerTime ?? lap.totalElapsedTime ?? 0).toFixed(1)}</TotalTimeSeconds>`,
+        `        <DistanceMeters>${(lap.totalDistance ?? 0).toFixed(2)}</DistanceMeters>`,
+        isDefined(lap.maxSpeed) ? `        <MaximumSpeed>${lap.maxSpeed.toFixed(3)}</MaximumSpeed>` : '',
+        `        <Calories>${Math.min(Math.round(lap.totalCalories ?? 0), 65535)}</Calories>`,
+        avgHr !== undefined ? `        <AverageHeartRateBpm><Value>${avgHr}</Value></AverageHeartRateBpm>` : '',
+        maxHr !== undefined ? `        <MaximumHeartRateBpm><Value>${maxHr}</Value></MaximumHeartRateBpm>` : '',
+        '        <Intensity>Active</Intensity>',
+        !running && cad !== undefined && cad <= 254 ? `        <Cadence>${cad}</Cadence>` : '',
+        '        <TriggerMethod>Manual</TriggerMethod>',
+        records.length > 0 ? ['        <Track>', ...records.map(record => toTcxTrackpoint(record, running)), '        </Track>'].join('\n') : '',
+        extension ? `        <Extensions><ns3:LX>${extension}</ns3:LX></Extensions>` : '',
+        '      </Lap>',
+    ].filter(Boolean).join('\n');
+};
+
+/**
+ * TCX, every record goes to the last lap started before it
+ * @throws Error if the activity has neither laps nor records
+ */
+export const toTcx = (activity: FitActivity, name?: string): string => {
+    const laps = getLaps(activity).filter(lap => lap.startTime);
+    if (laps.length === 0) {
+        throw new Error('activity has no laps or records, TCX needs at least one lap');
+    }
+    const running = getTcxSport(getSport(activity)) === 'Running';
+    const lapRecords: FitRecord[][] = laps.map(() => []);
+    for (const record of activity.records) {
+        let index = 0;
+        while (index + 1 < laps.length && laps[index + 1].startTime!.getTime() <= record.timestamp.getTime()) {
+            index++;
+        }
+        lapRecords[index].push(record);
+    }
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<TrainingCenterDatabase ${TCX_NAMESPACES}>`,
+        '  <Activities>',
+        `    <Activity Sport="${getTcxSport(getSport(activity))}">`,
+        `      <Id>${formatTime(getStartTime(activity) ?? laps[0].startTime!)}</Id>`,
+        ...laps.map((lap, i) => toTcxLap(lap, lapRecords[i], running)),
+        name ? `      <Notes>${escapeXml(name)}</Notes>` : '',
+        '    </Activity>',
+        '  </Activities>',
+        '</TrainingCenterDatabase>',
+        '',
+    ].filter(Boolean).join('\n');
+};
+
+/**
+ * Convert an archived FIT activity and write it to outDir as <activityId>.<format>
+ * @returns path of the written file
+ * @throws FitDecodeError if the archived file is not a valid FIT file
+ */
+export const exportArchivedActivity = (entry: ArchiveEntry, format: ExportFormat, outDir: string): string => {
+    if (path.extname(entry.filePath).toLowerCase() !== `.${FILE_SUFFIX.FIT}`) {
+        throw new Error(`${entry.filePath} is not a FIT file`);
+    }
+    const activity = readFitFile(resolveArchivePath(entry.filePath));
+    const name = [entry.sport, entry.startTime].filter(Boolean).join(' ') || undefined;
+    const content = format === FILE_SUFFIX.GPX ? toGpx(activity, name) : toTcx(activity, name);
+    fs.mkdirSync(outDir, { recursive: true });
+    const outFile = path.join(outDir, `${entry.activityId}.${format}`);
+    fs.writeFileSync(outFile, content);
+    return outFile;
+};
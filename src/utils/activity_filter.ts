@@ -0,0 +1,61 @@
+import _ from 'lodash';
+import { getConfig } from './config';
+
+/**
+ * Activity type filter on activityType.typeKey
+ * A pattern without * matches type keys containing it, like typeKey.includes('running');
+ * a pattern with * has to match the whole type key, * standing for any characters:
+ *  'running'    running, track_running, treadmill_running, street_running ...
+ *  'cycling*'   cycling, cycling_indoor ... but not road_cycling
+ */
+export interface ActivityTypeFilter {
+    include: string[];
+    exclude: string[];
+}
+
+const parsePatterns = (value: string): string[] => {
+    return value.split(',').map(p => p.trim()).filter(p => p.length > 0);
+};
+
+export const getActivityTypeFilter = (): ActivityTypeFilter => ({
+    include: parsePatterns(getConfig().garmin.activityInclude),
+    exclude: parsePatterns(getConfig().garmin.activityExclude),
+});
+
+export const matchesTypePattern = (typeKey: string, pattern: string): boolean => {
+    if (!pattern.includes('*')) {
+        return typeKey.toLowerCase().includes(pattern.toLowerCase());
+    }
+    const regexp = new RegExp('^' + pattern.split('*').map(_.escapeRegExp).join('.*') + '$', 'i');
+    return regexp.test(typeKey);
+};
+
+/**
+ * Check an activity against the include/exclude lists, exclude wins over include
+ */
+export const isActivityTypeAllowed = (
+    act: Record<string, any>,
+    filter: ActivityTypeFilter = getActivityTypeFilter(),
+): boolean => {
+    const typeKey = act?.activityType?.typeKey ?? '';
+    if (filter.include.length > 0 && !filter.include.some(p => matchesTypePattern(typeKey, p))) {
+        return false;
+    }
+    return !filter.exclude.some(p => matchesTypePattern(typeKey, p));
+};
+
+export const filterActivitiesByType = <T extends Record<string, any>>(
+    acts: T[],
+    filter: ActivityTypeFilter = getActivityTypeFilter(),
+): T[] => {
+    return acts.filter(act => isActivityTypeAllowed(act, filter));
+};
+
+export const describeActivityTypeFilter = (filter: ActivityTypeFilter = getActivityTypeFilter()): string => {
+    if (filter.include.length === 0 && filter.exclude.length === 0) {
+        return 'all activity types';
+    }
+    const include = filter.include.length > 0 ? filter.include.join(', ') : '*';
+    const exclude = filter.exclude.length > 0 ? ` excluding ${filter.exclude.join(', ')}` : '';
+    return `${include}${exclude}`;
+};
@@ -0,0 +1,179 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import _ from 'lodash';
+import { FILE_SUFFIX } from '../constant';
+import { readFitFile } from './fit';
+import {
+    createDuplicateChecker,
+    isFatalUploadStatus,
+    isSameStartTime,
+    UploadStatus,
+    uploadGarminActivity,
+} from './garmin_common';
+import { getImportLedgerEntry, ImportStatus, initImportLedgerTable, saveImportLedgerEntry } from './sqlite';
+import { GarminClientType, GarminRegion } from './type';
+
+/**
+ * Import of a local folder of activity files (FIT, GPX, TCX) into a Garmin region
+ * Every file is recorded by content hash in the import_ledger table, so an interrupted import resumes where it
+ * stopped and files that were imported, found on the account or rejected are not uploaded again.
+ */
+
+type ImportFormat = 'fit' | 'gpx' | 'tcx';
+
+const IMPORT_FORMATS: string[] = [FILE_SUFFIX.FIT, FILE_SUFFIX.GPX, FILE_SUFFIX.TCX];
+
+// results a later run does not retry
+const FINAL_STATUSES: ImportStatus[] = ['CREATED', 'DUPLICATE', 'REJECTED'];
+
+export interface ImportOptions {
+    // only print what would be uploaded
+    dryRun?: boolean;
+    // upload files again even if a previous run finished them
+    reset?: boolean;
+}
+
+export interface ImportFileResult {
+    filePath: string;
+    status: ImportStatus;
+    destActivityId?: string;
+    message?: string;
+}
+
+export interface ImportSummary {
+    files: number;
+    results: ImportFileResult[];
+    // finished by a previous run, or the same content as another file of the folder
+    skipped: number;
+    // fatal upload status the import stopped at, the remaining files are left for the next run
+    stoppedAt?: UploadStatus;
+}
+
+interface ImportFile {
+    filePath: string;
+    format: ImportFormat;
+    fileHash: string;
+    startTime?: Date;
+}
+
+const getFormat = (filePath: string): ImportFormat | undefined => {
+    const suffix = path.extname(filePath).slice(1).toLowerCase();
+    return IMPORT_FORMATS.includes(suffix) ? suffix as ImportFormat : undefined;
+};
+
+/**
+ * Supported activity files in the directory and its subdirectories, in path order
+ */
+export const findActivityFiles = (dir: string): string[] => {
+    return _.flatMap(_.sortBy(fs.readdirSync(dir, { withFileTypes: true }), 'name'), item => {
+        const itemPath = path.join(dir, item.name);
+        if (item.isDirectory()) {
+            return findActivityFiles(itemPath);
+        }
+        return item.isFile() && getFormat(itemPath) ? [itemPath] : [];
+    });
+};
+
+const parseXmlTime = (content: string, pattern: RegExp): Date | undefined => {
+    const time = pattern.exec(content)?.[1];
+    const date = time ? new Date(time.trim()) : undefined;
+    return date && !isNaN(date.getTime()) ? date : undefined;
+};
+
+/**
+ * Start time of the activity in a FIT, GPX or TCX file, used for the duplicate check
+ * @returns undefined if the file can not be read, Garmin decides on upload then
+ */
+export const readActivityStartTime = (filePath: string): Date | undefined => {
+    const format = getFormat(filePath);
+    if (!format) {
+        return undefined;
+    }
+    try {
+        if (format === 'fit') {
+            const activity = readFitFile(filePath, { checkCrc: false });
+            return activity.sessions[0]?.startTime ?? activity.records[0]?.timestamp ?? activity.fileId?.timeCreated;
+        }
+        const content = fs.readFileSync(filePath, 'utf8');
+        return format === 'gpx'
+            ? parseXmlTime(content, /<trkpt[\s\S]*?<time>([^<]+)<\/time>/)
+            : parseXmlTime(content, /<Id>([^<]+)<\/Id>/);
+    } catch (e) {
+        return undefined;
+    }
+};
+
+// same shape as the activity list, so the duplicate checker can compare it
+const toActivitySummary = (file: ImportFile): Record<string, any> => ({
+    startTimeGMT: file.startTime!.toISOString().slice(0, 19).replace('T', ' '),
+});
+
+const recordResult = async (summary: ImportSummary, destRegion: GarminRegion, file: ImportFile, result: ImportFileResult, dryRun?: boolean) => {
+    summary.results.push(result);
+    if (!dryRun) {
+        await saveImportLedgerEntry({ destRegion, fileHash: file.fileHash, ...result });
+    }
+};
+
+/**
+ * Upload every supported file of a directory to the account of destRegion
+ * Files whose activity the account already has (same start time) are not uploaded.
+ * Stops at the first upload failing with an expired session or rate limit.
+ * @param client logged in GarminClientType of destRegion
+ */
+export const importActivityFolder = async (
+    dir: string,
+    destRegion: GarminRegion,
+    client: GarminClientType,
+    options: ImportOptions = {},
+): Promise<ImportSummary> => {
+    await initImportLedgerTable();
+    const filePaths = findActivityFiles(dir);
+    const summary: ImportSummary = { files: filePaths.length, results: [], skipped: 0 };
+
+    const pending: ImportFile[] = [];
+    const hashes = new Set<string>();
+    for (const filePath of filePaths) {
+        const format = getFormat(filePath)!;
+        const fileHash = crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+        const previous = options.reset ? undefined : await getImportLedgerEntry(destRegion, fileHash);
+        if (hashes.has(fileHash) || (previous && FINAL_STATUSES.includes(previous.status))) {
+            summary.skipped++;
+            continue;
+        }
+        hashes.add(fileHash);
+        pending.push({ filePath, format, fileHash, startTime: readActivityStartTime(filePath) });
+    }
+    console.log(`Found ${filePaths.length} activity files in ${dir}, ${pending.length} to import into ${destRegion}, ${summary.skipped} already done or repeated`);
+
+    // the duplicate checker pages the account from the newest activity, files without a start time go last
+    const checker = createDuplicateChecker(client, 100, isSameStartTime);
+    for (const file of _.sortBy(pending, f => f.startTime ? -f.startTime.getTime() : Infinity)) {
+        const existing = file.startTime ? await checker.find(toActivitySummary(file)) : undefined;
+        if (existing) {
+            console.log(`DUPLICATE ${file.filePath}: ${destRegion} activity ${existing.activityId} starts at the same time`);
+            await recordResult(summary, destRegion, file, { filePath: file.filePath, status: 'DUPLICATE', destActivityId: String(existing.activityId) }, options.dryRun);
+            continue;
+        }
+        if (options.dryRun) {
+            console.log(`Would upload ${file.filePath}${file.startTime ? `, started ${file.startTime.toISOString()}` : ''}`);
+            continue;
+        }
+        console.log(`Uploading ${file.filePath} to ${destRegion}`);
+        const upload = await uploadGarminActivity(file.filePath, client, file.format);
+        if (isFatalUploadStatus(upload.status)) {
+            // not recorded, the next run uploads it again
+            summary.stoppedAt = upload.status;
+            console.log(`Upload failed (${upload.status}), stopping the import, run it again later to continue`);
+            break;
+        }
+        await recordResult(summary, destRegion, file, {
+            filePath: file.filePath,
+            status: upload.status,
+            destActivityId: upload.activityId,
+            message: upload.message,
+        });
+    }
+    return summary;
+};
@@ -1,28 +1,27 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import {
-    GEMINI_API_KEY_DEFAULT,
-    AI_INSIGHTS_ENABLED_DEFAULT,
-} from '../constant';
 import { initAIInsightsTable, saveAIInsight, hasAIInsight, AIInsightData, getAllAIInsights } from './sqlite';
 import { addActivityComment, hasActivityInsight } from './garmin_common';
 import { GarminClientType } from './type';
+import { getConfig } from './config';
+import { emitWebhookEvent, toWebhookActivity } from './webhook';
 
 const core = require('@actions/core');
 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY ?? GEMINI_API_KEY_DEFAULT;
-const AI_INSIGHTS_ENABLED = process.env.AI_INSIGHTS_ENABLED !== 'false' && AI_INSIGHTS_ENABLED_DEFAULT;
 const GEMINI_MODEL = 'gemini-2.5-flash-lite';
 
 let genAI: GoogleGenerativeAI | null = null;
+// profiles can use different keys
+let genAIKey: string | null = null;
 
 /**
  * Check if AI Insights feature is enabled
  */
 export const isAIInsightsEnabled = (): boolean => {
-    if (!AI_INSIGHTS_ENABLED) {
+    const { enabled, geminiApiKey } = getConfig().ai;
+    if (!enabled) {
         return false;
     }
-    if (!GEMINI_API_KEY) {
+    if (!geminiApiKey) {
         console.log('AI Insights: GEMINI_API_KEY not set, feature disabled');
         return false;
     }
@@ -33,8 +32,10 @@ export const isAIInsightsEnabled = (): boolean => {
  * Initialize the Gemini client
  */
 const getGeminiClient = (): GoogleGenerativeAI => {
-    if (!genAI) {
-        genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
+    const { geminiApiKey } = getConfig().ai;
+    if (!genAI || genAIKey !== geminiApiKey) {
+        genAI = new GoogleGenerativeAI(geminiApiKey);
+        genAIKey = geminiApiKey;
     }
     return genAI;
 };
@@ -618,6 +619,12 @@ export const processActivityWithInsights = async (
             };
             await saveAIInsight(insightData);
             console.log(`AI Insights: Saved to database successfully`);
+            emitWebhookEvent('insight.generated', {
+                activity: toWebhookActivity(activity),
+                insight: result.insight,
+                model: result.model,
+                confidence: result.confidence,
+            });
             
             // Post as comment to Garmin activity if client is provided
             if (client) {
@@ -651,6 +658,18 @@ export const processActivityWithInsights = async (
     }
 };
 
+/**
+ * Check whether processActivityWithInsights would generate a new insight for the activity
+ * Used by dry runs, does not call the Gemini API
+ */
+export const needsActivityInsight = async (activity: GarminActivity): Promise<boolean> => {
+    if (!isAIInsightsEnabled()) {
+        return false;
+    }
+    await initAIInsightsTable();
+    return !(await hasAIInsight(String(activity.activityId)));
+};
+
 /**
  * Process multiple activities with AI insights (for legacy processing)
  * @param activities Array of Garmin activities
@@ -0,0 +1,239 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import _ from 'lodash';
+import { getConfig } from './config';
+import { getDownloadDir } from './garmin_common';
+import {
+    ArchiveEntry,
+    countArchiveEntriesByPath,
+    deleteArchiveEntry,
+    getArchiveEntries,
+    getArchiveEntry,
+    getArchiveEntryByHash,
+    initActivityArchiveTable,
+    saveArchiveEntry,
+} from './sqlite';
+import { GarminClientType, GarminRegion, SyncService } from './type';
+
+/**
+ * Local archive of downloaded activity files
+ * Files are kept in <download dir>/archive/YYYY/MM by activity start time and indexed in the activity_archive table.
+ * Activities with the same file content (the CN original and its copy on Global) share one file,
+ * a file is only deleted once no archived activity uses it any more.
+ */
+
+const ARCHIVE_DIR_NAME = 'archive';
+const BYTES_PER_GB = 1024 ** 3;
+
+export interface RetentionPolicy {
+    // 0: no limit
+    retentionDays: number;
+    maxGb: number;
+}
+
+export interface PruneResult {
+    entries: ArchiveEntry[];
+    deletedFiles: string[];
+    freedBytes: number;
+}
+
+export type ArchiveProblemType = 'MISSING' | 'SIZE_MISMATCH' | 'HASH_MISMATCH' | 'ORPHAN';
+
+export interface ArchiveProblem {
+    type: ArchiveProblemType;
+    // relative to the download directory
+    filePath: string;
+    // missing for orphan files
+    entry?: ArchiveEntry;
+}
+
+export const getClientRegion = (client: GarminClientType): GarminRegion => client.domain === 'garmin.cn' ? 'CN' : 'GLOBAL';
+
+export const getRetentionPolicy = (): RetentionPolicy => {
+    const { archiveRetentionDays, archiveMaxGb } = getConfig().garmin;
+    return { retentionDays: archiveRetentionDays, maxGb: archiveMaxGb };
+};
+
+export const resolveArchivePath = (filePath: string): string => path.join(getDownloadDir(), filePath);
+
+const hashFile = (filePath: string): string => crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+
+// sqlite datetime('now') format, so it compares with created_at
+const toSqliteDate = (date: Date): string => date.toISOString().slice(0, 19).replace('T', ' ');
+
+/**
+ * Start time in local time of the activity, from the details or the activity list
+ */
+const getStartTime = (activity: Record<string, any>): string | undefined => {
+    const startTime = activity.summaryDTO?.startTimeLocal ?? activity.startTimeLocal;
+    return startTime ? String(startTime).replace('T', ' ').slice(0, 19) : undefined;
+};
+
+const getSport = (activity: Record<string, any>): string | undefined => {
+    return activity.activityTypeDTO?.typeKey ?? activity.activityType?.typeKey;
+};
+
+/**
+ * Archived file of the activity
+ * @returns the path, or undefined if the activity is not archived or the file is gone
+ */
+export const getArchivedFile = async (region: SyncService, activityId: string): Promise<string | undefined> => {
+    await initActivityArchiveTable();
+    const entry = await getArchiveEntry(region, activityId);
+    if (!entry) {
+        return undefined;
+    }
+    const filePath = resolveArchivePath(entry.filePath);
+    return fs.existsSync(filePath) ? filePath : undefined;
+};
+
+/**
+ * Move a downloaded activity file into the archive and index it
+ * If the archive already holds a file with the same content, the downloaded file is deleted and that one is used.
+ * @param activity activity details from client.getActivity
+ * @param downloadedFile file extracted from the original data zip
+ * @returns path of the archived file
+ */
+export const archiveActivityFile = async (
+    region: SyncService,
+    activity: Record<string, any>,
+    downloadedFile: string,
+): Promise<string> => {
+    await initActivityArchiveTable();
+    const activityId = String(activity.activityId);
+    const fileHash = hashFile(downloadedFile);
+    const size = fs.statSync(downloadedFile).size;
+    const startTime = getStartTime(activity);
+
+    let filePath: string;
+    const sameContent = await getArchiveEntryByHash(fileHash);
+    if (sameContent && fs.existsSync(resolveArchivePath(sameContent.filePath))) {
+        filePath = sameContent.filePath;
+        fs.rmSync(downloadedFile, { force: true });
+        console.log(`archive: ${region} ${activityId} has the same content as ${sameContent.region} ${sameContent.activityId}, reusing ${filePath}`);
+    } else {
+        const [year, month] = (startTime ?? toSqliteDate(new Date())).split('-');
+        const fileName = `${activityId}_${fileHash.slice(0, 8)}${path.extname(downloadedFile).toLowerCase()}`;
+        filePath = path.join(ARCHIVE_DIR_NAME, year, month, fileName);
+        const target = resolveArchivePath(filePath);
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.renameSync(downloadedFile, target);
+    }
+
+    await saveArchiveEntry({ region, activityId, filePath, fileHash, size, sport: getSport(activity), startTime });
+    return resolveArchivePath(filePath);
+};
+
+/**
+ * Delete archived files downloaded more than retentionDays ago, then the oldest ones until the archive fits in maxGb
+ * A shared file counts as downloaded when its newest activity was.
+ */
+export const pruneArchive = async (policy: RetentionPolicy, dryRun = false): Promise<PruneResult> => {
+    await initActivityArchiveTable();
+    const files = _.sortBy(
+        _.map(_.groupBy(await getArchiveEntries(), e => e.filePath), (entries, filePath) => ({
+            filePath,
+            entries,
+            size: entries[0].size,
+            createdAt: _.max(entries.map(e => e.createdAt)) as string,
+        })),
+        'createdAt',
+    );
+
+    const cutoff = policy.retentionDays > 0 ? toSqliteDate(new Date(Date.now() - policy.retentionDays * 24 * 3600 * 1000)) : undefined;
+    const maxBytes = policy.maxGb > 0 ? policy.maxGb * BYTES_PER_GB : Infinity;
+    let totalBytes = _.sumBy(files, 'size');
+
+    const result: PruneResult = { entries: [], deletedFiles: [], freedBytes: 0 };
+    for (const file of files) {
+        const expired = cutoff !== undefined && file.createdAt < cutoff;
+        if (!expired && totalBytes <= maxBytes) {
+            break;
+        }
+        totalBytes -= file.size;
+        result.entries.push(...file.entries);
+        result.deletedFiles.push(file.filePath);
+        result.freedBytes += file.size;
+        if (!dryRun) {
+            fs.rmSync(resolveArchivePath(file.filePath), { force: true });
+            for (const entry of file.entries) {
+                await deleteArchiveEntry(entry.id);
+            }
+        }
+    }
+    return result;
+};
+
+/**
+ * Prune the archive by the configured retention policy, if there is one
+ * Called after runs that download activities.
+ */
+export const applyRetentionPolicy = async (): Promise<void> => {
+    const policy = getRetentionPolicy();
+    if (!policy.retentionDays && !policy.maxGb) {
+        return;
+    }
+    const result = await pruneArchive(policy);
+    if (result.deletedFiles.length > 0) {
+        console.log(`archive: pruned ${result.deletedFiles.length} files of ${result.entries.length} activities by the retention policy`);
+    }
+};
+
+const listFiles = (dir: string): string[] => {
+    if (!fs.existsSync(dir)) {
+        return [];
+    }
+    return _.flatMap(fs.readdirSync(dir, { withFileTypes: true }), item => {
+        const itemPath = path.join(dir, item.name);
+        return item.isDirectory() ? listFiles(itemPath) : [itemPath];
+    });
+};
+
+/**
+ * Check that every archived file exists with the indexed size and hash, and find files no activity uses
+ * @param fix delete index entries of missing or changed files, and the orphan and changed files
+ */
+export const verifyArchive = async (fix = false): Promise<ArchiveProblem[]> => {
+    await initActivityArchiveTable();
+    const entries = await getArchiveEntries();
+    const problems: ArchiveProblem[] = [];
+    const hashes = new Map<string, string>();
+    for (const entry of entries) {
+        const filePath = resolveArchivePath(entry.filePath);
+        if (!fs.existsSync(filePath)) {
+            problems.push({ type: 'MISSING', filePath: entry.filePath, entry });
+        } else if (fs.statSync(filePath).size !== entry.size) {
+            problems.push({ type: 'SIZE_MISMATCH', filePath: entry.filePath, entry });
+        } else {
+            if (!hashes.has(entry.filePath)) {
+                hashes.set(entry.filePath, hashFile(filePath));
+            }
+            if (hashes.get(entry.filePath) !== entry.fileHash) {
+                problems.push({ type: 'HASH_MISMATCH', filePath: entry.filePath, entry });
+            }
+        }
+    }
+
+    const indexed = new Set(entries.map(e => path.normalize(e.filePath)));
+    const downloadDir = getDownloadDir();
+    for (const file of listFiles(resolveArchivePath(ARCHIVE_DIR_NAME))) {
+        const filePath = path.relative(downloadDir, file);
+        if (!indexed.has(filePath)) {
+            problems.push({ type: 'ORPHAN', filePath });
+        }
+    }
+
+    if (fix) {
+        for (const problem of problems) {
+            if (problem.entry) {
+                await deleteArchiveEntry(problem.entry.id);
+            }
+            // a changed file is useless to every activity that shares it
+            if (problem.type !== 'MISSING' && (!problem.entry || await countArchiveEntriesByPath(problem.filePath) === 0)) {
+                fs.rmSync(resolveArchivePath(problem.filePath), { force: true });
+            }
+        }
+    }
+    return problems;
+};
@@ -0,0 +1,119 @@
+/**
+ * 命令行参数解析
+ * 支持 `--name value`、`--name=value` 及短参数 `-n value` 写法，布尔参数不带值
+ */
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type OptionType = 'boolean' | 'number' | 'string' | 'date';
+
+export interface OptionSpec {
+    // long name without dashes, e.g. 'dry-run'
+    name: string;
+    // short name without dash, e.g. 'n'
+    alias?: string;
+    type: OptionType;
+    description: string;
+    // allowed values of a string option
+    choices?: string[];
+    // value placeholder shown in the help, e.g. '<N>'
+    placeholder?: string;
+}
+
+export type ParsedOptions = Record<string, boolean | number | string | undefined>;
+
+export interface ParsedArgs {
+    options: ParsedOptions;
+    positionals: string[];
+}
+
+/**
+ * Invalid command line, the CLI prints the help and exits with code 2
+ */
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+// Date parses 2024-02-31 as March 2nd, so the date must format back to the same string
+const isValidDate = (value: string): boolean => {
+    const date = new Date(value);
+    return DATE_PATTERN.test(value) && !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+const parseValue = (spec: OptionSpec, value: string | undefined): number | string => {
+    if (value === undefined || value === '') {
+        throw new UsageError(`Missing value for --${spec.name}`);
+    }
+    if (spec.type === 'number') {
+        const n = Number(value);
+        if (!Number.isInteger(n) || n <= 0) {
+            throw new UsageError(`Invalid --${spec.name}: ${value}. Must be a positive number.`);
+        }
+        return n;
+    }
+    if (spec.type === 'date' && !isValidDate(value)) {
+        throw new UsageError(`Invalid --${spec.name}: ${value}. Expected YYYY-MM-DD.`);
+    }
+    if (spec.choices && !spec.choices.includes(value)) {
+        throw new UsageError(`Invalid --${spec.name}: ${value}. Expected one of ${spec.choices.join(', ')}.`);
+    }
+    return value;
+};
+
+/**
+ * Parse argv against the options of a command
+ * Arguments that are not options are returned as positionals, in order.
+ * @throws UsageError on unknown options and invalid values
+ */
+export const parseArgs = (argv: string[], specs: OptionSpec[]): ParsedArgs => {
+    const options: ParsedOptions = {};
+    const positionals: string[] = [];
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('-') || arg === '-') {
+            positionals.push(arg);
+            continue;
+        }
+        const [key, inlineValue] = arg.startsWith('--')
+            ? [arg.slice(2).split('=')[0], arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : undefined]
+            : [arg.slice(1), undefined];
+        const spec = arg.startsWith('--')
+            ? specs.find(s => s.name === key)
+            : specs.find(s => s.alias === key);
+        if (!spec) {
+            throw new UsageError(`Unknown option: ${arg}`);
+        }
+        if (spec.type === 'boolean') {
+            if (inlineValue !== undefined) {
+                throw new UsageError(`Option --${spec.name} does not take a value`);
+            }
+            options[spec.name] = true;
+            continue;
+        }
+        if (inlineValue !== undefined) {
+            options[spec.name] = parseValue(spec, inlineValue);
+        } else {
+            const nextArg = argv[i + 1];
+            options[spec.name] = parseValue(spec, nextArg?.startsWith('-') ? undefined : nextArg);
+            i++; // Skip next arg
+        }
+    }
+
+    return { options, positionals };
+};
+
+/**
+ * Help lines of the options, aligned like `  --count, -n <N>   Number of ...`
+ */
+export const formatOptions = (specs: OptionSpec[]): string[] => {
+    const labels = specs.map(spec => {
+        const value = spec.type === 'boolean' ? '' : ` ${spec.placeholder ?? (spec.type === 'date' ? '<YYYY-MM-DD>' : '<value>')}`;
+        return `--${spec.name}${spec.alias ? `, -${spec.alias}` : ''}${value}`;
+    });
+    const width = Math.max(...labels.map(l => l.length), 0) + 3;
+    return specs.map((spec, i) => `  ${labels[i].padEnd(width)}${spec.description}`);
+};
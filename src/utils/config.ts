@@ -0,0 +1,409 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import _ from 'lodash';
+import {
+    AESKEY_DEFAULT,
+    DAILYSYNC_PROFILE_DEFAULT,
+    AI_INSIGHTS_ENABLED_DEFAULT,
+    AI_INSIGHTS_LEGACY_COUNT_DEFAULT,
+    AI_INSIGHTS_REFRESH_COUNT_DEFAULT,
+    AI_INSIGHTS_USE_GLOBAL_DEFAULT,
+    GARMIN_ACTIVITY_EXCLUDE_DEFAULT,
+    GARMIN_ACTIVITY_INCLUDE_DEFAULT,
+    GARMIN_ARCHIVE_MAX_GB_DEFAULT,
+    GARMIN_ARCHIVE_RETENTION_DAYS_DEFAULT,
+    GARMIN_GLOBAL_PASSWORD_DEFAULT,
+    GARMIN_GLOBAL_USERNAME_DEFAULT,
+    GARMIN_MIGRATE_NUM_DEFAULT,
+    GARMIN_MIGRATE_START_DEFAULT,
+    GARMIN_MIRROR_CHANGES_DEFAULT,
+    GARMIN_MIRROR_MAX_DELETIONS_DEFAULT,
+    GARMIN_MIRROR_NUM_DEFAULT,
+    GARMIN_PASSWORD_DEFAULT,
+    GARMIN_RETRY_DELAY_DEFAULT,
+    GARMIN_RETRY_MAX_ATTEMPTS_DEFAULT,
+    GARMIN_SYNC_NUM_DEFAULT,
+    GARMIN_USERNAME_DEFAULT,
+    GEMINI_API_KEY_DEFAULT,
+    GOOGLE_API_CLIENT_EMAIL_DEFAULT,
+    GOOGLE_API_PRIVATE_KEY_DEFAULT,
+    GOOGLE_SHEET_ID_DEFAULT,
+    RQ_COOKIE_DEFAULT,
+    RQ_CSRF_TOKEN_DEFAULT,
+    RQ_USERID_DEFAULT,
+    STRAVA_ACCESS_TOKEN_DEFAULT,
+    STRAVA_API_URL_DEFAULT,
+    STRAVA_CLIENT_ID_DEFAULT,
+    STRAVA_CLIENT_SECRET_DEFAULT,
+    STRAVA_REDIRECT_URI_DEFAULT,
+    STRAVA_REFRESH_TOKEN_DEFAULT,
+    STRAVA_SYNC_DEFAULT,
+    WEBHOOK_EVENTS_DEFAULT,
+    WEBHOOK_MAX_ATTEMPTS_DEFAULT,
+    WEBHOOK_RETRY_DELAY_DEFAULT,
+    WEBHOOK_SECRET_DEFAULT,
+    WEBHOOK_URLS_DEFAULT,
+    WELLNESS_SYNC_DAYS_DEFAULT,
+    WELLNESS_SYNC_DEFAULT,
+} from '../constant';
+
+/**
+ * Typed configuration
+ * Every value is resolved from, in order of priority:
+ *   1. the environment variable (Github Actions secrets)
+ *   2. the config file (config.yaml / config.yml / config.json, or DAILYSYNC_CONFIG / --config)
+ *   3. the *_DEFAULT constant in constant.ts
+ * Empty strings count as not set on every layer, so an empty secret falls back to the next layer.
+ *
+ * Several athletes can share one installation with named profiles in the config file:
+ *   profiles:
+ *     alice:
+ *       garmin: { cn: { username: ..., password: ... } }
+ * Values of the selected profile override all layers above. Account values (Garmin, RQ, sheet id, Strava tokens) only come
+ * from the profile so one athlete never syncs into another's account, other settings are shared unless overridden.
+ * Sessions, ledgers and downloads are kept apart per profile.
+ */
+
+export interface GarminAccountConfig {
+    username: string;
+    password: string;
+}
+
+export interface AppConfig {
+    // name of the selected profile
+    profile: string;
+    aesKey: string;
+    garmin: {
+        cn: GarminAccountConfig;
+        global: GarminAccountConfig;
+        syncNum: number;
+        // unset: migrate the count given by the command
+        migrateNum?: number;
+        migrateStart: number;
+        activityInclude: string;
+        activityExclude: string;
+        retryMaxAttempts: number;
+        retryDelay: number;
+        mirrorChanges: boolean;
+        mirrorNum: number;
+        mirrorMaxDeletions: number;
+        // 0: no limit
+        archiveRetentionDays: number;
+        archiveMaxGb: number;
+    };
+    ai: {
+        enabled: boolean;
+        geminiApiKey: string;
+        legacyCount: number;
+        // insights commands use the Global account
+        useGlobal: boolean;
+        refreshCount: number;
+    };
+    google: {
+        clientEmail: string;
+        privateKey: string;
+        sheetId: string;
+    };
+    rq: {
+        userId: string;
+        cookie: string;
+        csrfToken: string;
+    };
+    strava: {
+        accessToken: string;
+        clientId: string;
+        clientSecret: string;
+        redirectUri: string;
+        refreshToken: string;
+        sync: boolean;
+        apiUrl: string;
+    };
+    wellness: {
+        sync: boolean;
+        // days up to today synced by the sync command
+        days: number;
+    };
+    webhook: {
+        // comma separated
+        urls: string;
+        secret: string;
+        // comma separated event names, empty: all events
+        events: string;
+        maxAttempts: number;
+        // milliseconds before the first retry, doubled for each one after it
+        retryDelay: number;
+    };
+}
+
+type FieldType = 'string' | 'number' | 'boolean';
+
+interface ConfigField {
+    // dotted path in AppConfig and in the config file
+    path: string;
+    env: string;
+    type: FieldType;
+    default?: string | number | boolean;
+    // smallest allowed number
+    min?: number;
+}
+
+const CONFIG_FIELDS: ConfigField[] = [
+    { path: 'aesKey', env: 'AESKEY', type: 'string', default: AESKEY_DEFAULT },
+    { path: 'garmin.cn.username', env: 'GARMIN_USERNAME', type: 'string', default: GARMIN_USERNAME_DEFAULT },
+    { path: 'garmin.cn.password', env: 'GARMIN_PASSWORD', type: 'string', default: GARMIN_PASSWORD_DEFAULT },
+    { path: 'garmin.global.username', env: 'GARMIN_GLOBAL_USERNAME', type: 'string', default: GARMIN_GLOBAL_USERNAME_DEFAULT },
+    { path: 'garmin.global.password', env: 'GARMIN_GLOBAL_PASSWORD', type: 'string', default: GARMIN_GLOBAL_PASSWORD_DEFAULT },
+    { path: 'garmin.syncNum', env: 'GARMIN_SYNC_NUM', type: 'number', default: GARMIN_SYNC_NUM_DEFAULT, min: 1 },
+    { path: 'garmin.migrateNum', env: 'GARMIN_MIGRATE_NUM', type: 'number', default: GARMIN_MIGRATE_NUM_DEFAULT, min: 1 },
+    { path: 'garmin.migrateStart', env: 'GARMIN_MIGRATE_START', type: 'number', default: GARMIN_MIGRATE_START_DEFAULT || 0, min: 0 },
+    { path: 'garmin.activityInclude', env: 'GARMIN_ACTIVITY_INCLUDE', type: 'string', default: GARMIN_ACTIVITY_INCLUDE_DEFAULT },
+    { path: 'garmin.activityExclude', env: 'GARMIN_ACTIVITY_EXCLUDE', type: 'string', default: GARMIN_ACTIVITY_EXCLUDE_DEFAULT },
+    { path: 'garmin.retryMaxAttempts', env: 'GARMIN_RETRY_MAX_ATTEMPTS', type: 'number', default: GARMIN_RETRY_MAX_ATTEMPTS_DEFAULT, min: 1 },
+    { path: 'garmin.retryDelay', env: 'GARMIN_RETRY_DELAY', type: 'number', default: GARMIN_RETRY_DELAY_DEFAULT, min: 1 },
+    { path: 'garmin.mirrorChanges', env: 'GARMIN_MIRROR_CHANGES', type: 'boolean', default: GARMIN_MIRROR_CHANGES_DEFAULT },
+    { path: 'garmin.mirrorNum', env: 'GARMIN_MIRROR_NUM', type: 'number', default: GARMIN_MIRROR_NUM_DEFAULT, min: 1 },
+    { path: 'garmin.mirrorMaxDeletions', env: 'GARMIN_MIRROR_MAX_DELETIONS', type: 'number', default: GARMIN_MIRROR_MAX_DELETIONS_DEFAULT, min: 0 },
+    { path: 'garmin.archiveRetentionDays', env: 'GARMIN_ARCHIVE_RETENTION_DAYS', type: 'number', default: GARMIN_ARCHIVE_RETENTION_DAYS_DEFAULT, min: 0 },
+    { path: 'garmin.archiveMaxGb', env: 'GARMIN_ARCHIVE_MAX_GB', type: 'number', default: GARMIN_ARCHIVE_MAX_GB_DEFAULT, min: 0 },
+    { path: 'ai.enabled', env: 'AI_INSIGHTS_ENABLED', type: 'boolean', default: AI_INSIGHTS_ENABLED_DEFAULT },
+    { path: 'ai.geminiApiKey', env: 'GEMINI_API_KEY', type: 'string', default: GEMINI_API_KEY_DEFAULT },
+    { path: 'ai.legacyCount', env: 'LEGACY_COUNT', type: 'number', default: AI_INSIGHTS_LEGACY_COUNT_DEFAULT, min: 1 },
+    { path: 'ai.useGlobal', env: 'USE_GLOBAL', type: 'boolean', default: AI_INSIGHTS_USE_GLOBAL_DEFAULT },
+    { path: 'ai.refreshCount', env: 'REFRESH_COUNT', type: 'number', default: AI_INSIGHTS_REFRESH_COUNT_DEFAULT, min: 1 },
+    { path: 'google.clientEmail', env: 'GOOGLE_API_CLIENT_EMAIL', type: 'string', default: GOOGLE_API_CLIENT_EMAIL_DEFAULT },
+    { path: 'google.privateKey', env: 'GOOGLE_API_PRIVATE_KEY', type: 'string', default: GOOGLE_API_PRIVATE_KEY_DEFAULT },
+    { path: 'google.sheetId', env: 'GOOGLE_SHEET_ID', type: 'string', default: GOOGLE_SHEET_ID_DEFAULT },
+    { path: 'rq.userId', env: 'RQ_USERID', type: 'string', default: RQ_USERID_DEFAULT },
+    { path: 'rq.cookie', env: 'RQ_COOKIE', type: 'string', default: RQ_COOKIE_DEFAULT },
+    { path: 'rq.csrfToken', env: 'RQ_CSRF_TOKEN', type: 'string', default: RQ_CSRF_TOKEN_DEFAULT },
+    { path: 'strava.accessToken', env: 'STRAVA_ACCESS_TOKEN', type: 'string', default: STRAVA_ACCESS_TOKEN_DEFAULT },
+    { path: 'strava.clientId', env: 'STRAVA_CLIENT_ID', type: 'string', default: STRAVA_CLIENT_ID_DEFAULT },
+    { path: 'strava.clientSecret', env: 'STRAVA_CLIENT_SECRET', type: 'string', default: STRAVA_CLIENT_SECRET_DEFAULT },
+    { path: 'strava.redirectUri', env: 'STRAVA_REDIRECT_URI', type: 'string', default: STRAVA_REDIRECT_URI_DEFAULT },
+    { path: 'strava.refreshToken', env: 'STRAVA_REFRESH_TOKEN', type: 'string', default: STRAVA_REFRESH_TOKEN_DEFAULT },
+    { path: 'strava.sync', env: 'STRAVA_SYNC', type: 'boolean', default: STRAVA_SYNC_DEFAULT },
+    { path: 'strava.apiUrl', env: 'STRAVA_API_URL', type: 'string', default: STRAVA_API_URL_DEFAULT },
+    { path: 'wellness.sync', env: 'WELLNESS_SYNC', type: 'boolean', default: WELLNESS_SYNC_DEFAULT },
+    { path: 'wellness.days', env: 'WELLNESS_SYNC_DAYS', type: 'number', default: WELLNESS_SYNC_DAYS_DEFAULT, min: 1 },
+    { path: 'webhook.urls', env: 'WEBHOOK_URLS', type: 'string', default: WEBHOOK_URLS_DEFAULT },
+    { path: 'webhook.secret', env: 'WEBHOOK_SECRET', type: 'string', default: WEBHOOK_SECRET_DEFAULT },
+    { path: 'webhook.events', env: 'WEBHOOK_EVENTS', type: 'string', default: WEBHOOK_EVENTS_DEFAULT },
+    { path: 'webhook.maxAttempts', env: 'WEBHOOK_MAX_ATTEMPTS', type: 'number', default: WEBHOOK_MAX_ATTEMPTS_DEFAULT, min: 1 },
+    { path: 'webhook.retryDelay', env: 'WEBHOOK_RETRY_DELAY', type: 'number', default: WEBHOOK_RETRY_DELAY_DEFAULT },
+];
+
+export type ConfigPath = string;
+
+const DEFAULT_CONFIG_FILES = ['config.yaml', 'config.yml', 'config.json'];
+
+// the session encryption key protects the whole database, so it can not differ per profile
+const SHARED_ONLY_PATHS = ['aesKey'];
+
+// values a named profile does not inherit from the shared configuration
+const PROFILE_ONLY_PATHS = [
+    'garmin.cn.username', 'garmin.cn.password', 'garmin.global.username', 'garmin.global.password',
+    'rq.userId', 'rq.cookie', 'rq.csrfToken', 'google.sheetId', 'strava.accessToken', 'strava.refreshToken',
+];
+
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Invalid or incomplete configuration, the message lists every problem found
+ */
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConfigError';
+    }
+}
+
+const isUnset = (value: any): boolean => value === undefined || value === null || value === '';
+
+/**
+ * @returns the typed value, or an error message
+ */
+const coerceValue = (field: ConfigField, value: any): { value?: string | number | boolean; error?: string } => {
+    if (field.type === 'number') {
+        const n = typeof value === 'number' ? value : Number(String(value).trim());
+        if (!Number.isInteger(n) || n < (field.min ?? 0)) {
+            return { error: `expected a whole number >= ${field.min ?? 0}, got ${JSON.stringify(value)}` };
+        }
+        return { value: n };
+    }
+    if (field.type === 'boolean') {
+        if (typeof value === 'boolean') {
+            return { value };
+        }
+        const text = String(value).trim().toLowerCase();
+        if (text !== 'true' && text !== 'false') {
+            return { error: `expected true or false, got ${JSON.stringify(value)}` };
+        }
+        return { value: text === 'true' };
+    }
+    if (typeof value === 'object') {
+        return { error: `expected a string, got ${JSON.stringify(value)}` };
+    }
+    // keys pasted into a single line secret keep their line breaks as \n
+    return { value: String(value).replace(/\\n/gm, '\n') };
+};
+
+const readConfigFile = (filePath: string): Record<string, any> => {
+    const content = fs.readFileSync(filePath, 'utf8');
+    try {
+        const parsed = path.extname(filePath) === '.json' ? JSON.parse(content) : YAML.parse(content);
+        return parsed ?? {};
+    } catch (e: any) {
+        throw new ConfigError(`Invalid config file ${filePath}: ${e.message}`);
+    }
+};
+
+/**
+ * Dotted paths of all leaf values in the config file
+ */
+const getLeafPaths = (value: Record<string, any>, prefix = ''): string[] => {
+    return _.flatMap(Object.keys(value), key => {
+        const child = value[key];
+        const childPath = prefix + key;
+        return _.isPlainObject(child) ? getLeafPaths(child, `${childPath}.`) : [childPath];
+    });
+};
+
+const findConfigFile = (configPath?: string): string | undefined => {
+    const explicitPath = configPath ?? (process.env.DAILYSYNC_CONFIG || undefined);
+    if (explicitPath) {
+        if (!fs.existsSync(explicitPath)) {
+            throw new ConfigError(`Config file not found: ${explicitPath}`);
+        }
+        return explicitPath;
+    }
+    return DEFAULT_CONFIG_FILES.find(file => fs.existsSync(file));
+};
+
+const readConfigSource = (configPath?: string): { filePath?: string; file: Record<string, any> } => {
+    const filePath = findConfigFile(configPath);
+    return { filePath, file: filePath ? readConfigFile(filePath) : {} };
+};
+
+const getProfiles = (file: Record<string, any>): Record<string, Record<string, any>> => {
+    return _.isPlainObject(file.profiles) ? file.profiles : {};
+};
+
+/**
+ * Profiles an "all profiles" run goes through: the named profiles of the config file,
+ * or only the default profile if there are none
+ */
+export const getProfileNames = (configPath?: string): string[] => {
+    const names = Object.keys(getProfiles(readConfigSource(configPath).file));
+    return names.length > 0 ? names : [DAILYSYNC_PROFILE_DEFAULT];
+};
+
+let loadedConfig: AppConfig | undefined;
+
+/**
+ * Load the configuration, replacing the one loaded before
+ * @param configPath config file, defaults to DAILYSYNC_CONFIG or the first of config.yaml, config.yml, config.json
+ * @param profile profile name, defaults to DAILYSYNC_PROFILE or the default profile
+ * @throws ConfigError listing every unknown key and invalid value
+ */
+export const loadConfig = (configPath?: string, profile?: string): AppConfig => {
+    const { filePath, file } = readConfigSource(configPath);
+    const profileName = profile ?? (process.env.DAILYSYNC_PROFILE || DAILYSYNC_PROFILE_DEFAULT);
+    const profiles = getProfiles(file);
+    const errors: string[] = [];
+
+    if (file.profiles !== undefined && !_.isPlainObject(file.profiles)) {
+        errors.push(`profiles (${filePath}): expected a map of profile names`);
+    }
+    if (profileName !== DAILYSYNC_PROFILE_DEFAULT && !profiles[profileName]) {
+        const available = Object.keys(profiles);
+        throw new ConfigError(`Unknown profile '${profileName}', ${available.length > 0 ? `available: ${available.join(', ')}` : `no profiles in ${filePath ?? 'a config file'}`}`);
+    }
+
+    const knownPaths = new Set(CONFIG_FIELDS.map(f => f.path));
+    for (const leafPath of getLeafPaths(_.omit(file, 'profiles'))) {
+        if (!knownPaths.has(leafPath)) {
+            errors.push(`${leafPath} (${filePath}): unknown configuration key`);
+        }
+    }
+    for (const [name, section] of Object.entries(profiles)) {
+        if (!PROFILE_NAME_PATTERN.test(name)) {
+            errors.push(`profiles.${name} (${filePath}): profile names may only contain letters, digits, _ and -`);
+        }
+        for (const leafPath of getLeafPaths(_.isPlainObject(section) ? section : {})) {
+            if (!knownPaths.has(leafPath) || SHARED_ONLY_PATHS.includes(leafPath)) {
+                errors.push(`profiles.${name}.${leafPath} (${filePath}): unknown profile configuration key`);
+            }
+        }
+    }
+
+    const profileSection = profiles[profileName] ?? {};
+    const isNamedProfile = profileName !== DAILYSYNC_PROFILE_DEFAULT;
+    const config = { profile: profileName };
+    for (const field of CONFIG_FIELDS) {
+        const shared = !(isNamedProfile && PROFILE_ONLY_PATHS.includes(field.path));
+        const profileValue = _.get(profileSection, field.path);
+        const envValue = shared ? process.env[field.env] : undefined;
+        const fileValue = shared ? _.get(file, field.path) : undefined;
+        const [value, source] = !isUnset(profileValue)
+            ? [profileValue, `${filePath} profile ${profileName}`]
+            : !isUnset(envValue)
+                ? [envValue, `env ${field.env}`]
+                : !isUnset(fileValue)
+                    ? [fileValue, filePath]
+                    : [shared ? field.default : undefined, 'constant.ts'];
+        if (isUnset(value)) {
+            continue;
+        }
+        const result = coerceValue(field, value);
+        if (result.error) {
+            errors.push(`${field.path} (${source}): ${result.error}`);
+        } else {
+            _.set(config, field.path, result.value);
+        }
+    }
+    if (errors.length > 0) {
+        throw new ConfigError(`Invalid configuration:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+    }
+
+    // strings that are not set are empty, so modules can test them with _.isEmpty as before
+    for (const field of CONFIG_FIELDS.filter(f => f.type === 'string' && !_.has(config, f.path))) {
+        _.set(config, field.path, '');
+    }
+    loadedConfig = config as AppConfig;
+    return loadedConfig;
+};
+
+/**
+ * The loaded configuration, loading the default config file on first use
+ */
+export const getConfig = (): AppConfig => loadedConfig ?? loadConfig();
+
+/**
+ * Check that a command has every configuration value it needs
+ * @param paths dotted AppConfig paths, e.g. 'garmin.cn.username'
+ * @param commandName shown in the error, e.g. 'dailysync sync'
+ * @throws ConfigError listing every missing value with its environment variable
+ */
+export const checkRequiredConfig = (config: AppConfig, paths: ConfigPath[], commandName: string): void => {
+    const missing = CONFIG_FIELDS.filter(f => paths.includes(f.path) && isUnset(_.get(config, f.path)));
+    if (missing.length > 0) {
+        const isNamedProfile = config.profile !== DAILYSYNC_PROFILE_DEFAULT;
+        const describe = (f: ConfigField) => isNamedProfile && PROFILE_ONLY_PATHS.includes(f.path)
+            ? `profiles.${config.profile}.${f.path}`
+            : `${f.path} (env ${f.env})`;
+        throw new ConfigError([
+            `Missing configuration for '${commandName}'${isNamedProfile ? ` (profile ${config.profile})` : ''}:`,
+            ...missing.map(f => `  - ${describe(f)}`),
+            isNamedProfile
+                ? 'Set them in the profile section of the config file.'
+                : 'Set them in config.yaml or as environment variables / Github Actions secrets.',
+        ].join('\n'));
+    }
+};
+
+export const GARMIN_CN_ACCOUNT: ConfigPath[] = ['garmin.cn.username', 'garmin.cn.password'];
+export const GARMIN_GLOBAL_ACCOUNT: ConfigPath[] = ['garmin.global.username', 'garmin.global.password'];
+export const GOOGLE_SHEETS_ACCOUNT: ConfigPath[] = ['google.clientEmail', 'google.privateKey', 'google.sheetId'];
+export const RQ_ACCOUNT: ConfigPath[] = ['rq.userId', 'rq.cookie', 'rq.csrfToken'];
+export const STRAVA_APP: ConfigPath[] = ['strava.clientId', 'strava.clientSecret'];
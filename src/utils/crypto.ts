@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+
+const CryptoJS = require('crypto-js');
+
+/**
+ * Encryption of secrets stored in the database
+ * Ciphertext is versioned so the format can change without losing stored secrets:
+ *   v2:<salt>:<iv>:<tag>:<ciphertext>   AES-256-GCM, key derived with scrypt from the passphrase and a random salt
+ *   U2FsdGVkX1...                       v1, CryptoJS passphrase AES, read only
+ */
+
+const CIPHERTEXT_VERSION = 'v2';
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+const SCRYPT_OPTIONS: crypto.ScryptOptions = { N: 16384, r: 8, p: 1 };
+// base64 of 'Salted__', the prefix of CryptoJS passphrase ciphertext
+const LEGACY_PREFIX = 'U2FsdGVkX1';
+
+/**
+ * Ciphertext that can not be decrypted with the given key, or that was tampered with
+ */
+export class DecryptionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DecryptionError';
+    }
+}
+
+const deriveKey = (passphrase: string, salt: Buffer): Buffer => crypto.scryptSync(passphrase, salt, KEY_BYTES, SCRYPT_OPTIONS);
+
+export const isLegacyCiphertext = (ciphertext: string): boolean => ciphertext.startsWith(LEGACY_PREFIX);
+
+export const encryptText = (text: string, passphrase: string): string => {
+    const salt = crypto.randomBytes(SALT_BYTES);
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+    const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+    return [CIPHERTEXT_VERSION, salt, iv, cipher.getAuthTag(), encrypted]
+        .map(part => typeof part === 'string' ? part : part.toString('base64'))
+        .join(':');
+};
+
+const decryptLegacy = (ciphertext: string, passphrase: string): string => {
+    let text = '';
+    try {
+        text = CryptoJS.AES.decrypt(ciphertext, passphrase).toString(CryptoJS.enc.Utf8);
+    } catch (e) {
+        // a wrong key usually yields bytes that are not valid UTF-8
+    }
+    if (!text) {
+        throw new DecryptionError('wrong AESKEY, the v1 ciphertext can not be decrypted');
+    }
+    return text;
+};
+
+/**
+ * @throws DecryptionError on a wrong key, corrupt or unknown ciphertext
+ */
+export const decryptText = (ciphertext: string, passphrase: string): string => {
+    if (isLegacyCiphertext(ciphertext)) {
+        return decryptLegacy(ciphertext, passphrase);
+    }
+    const [version, ...parts] = String(ciphertext).split(':');
+    if (version !== CIPHERTEXT_VERSION || parts.length !== 4) {
+        throw new DecryptionError(`unknown ciphertext format '${String(ciphertext).slice(0, 10)}...'`);
+    }
+    const [salt, iv, tag, encrypted] = parts.map(part => Buffer.from(part, 'base64'));
+    try {
+        const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+        decipher.setAuthTag(tag);
+        return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+    } catch (e) {
+        throw new DecryptionError('wrong AESKEY, or the ciphertext was modified');
+    }
+};
@@ -0,0 +1,544 @@
+import fs from 'fs';
+
+/**
+ * Decoder of FIT activity files (Garmin Flexible and Interoperable Data Transfer protocol)
+ * Reads the messages needed for analysis without the FIT SDK, so it works offline:
+ *   file_id, session, lap, record and device_info
+ * Other messages and developer fields are skipped. Chained FIT files are decoded as one activity.
+ */
+
+export interface FitFileId {
+    type?: number;
+    manufacturer?: number;
+    product?: number;
+    serialNumber?: number;
+    timeCreated?: Date;
+}
+
+export interface FitRecord {
+    timestamp: Date;
+    // degrees
+    positionLat?: number;
+    positionLong?: number;
+    // meters
+    altitude?: number;
+    distance?: number;
+    // bpm
+    heartRate?: number;
+    // m/s
+    speed?: number;
+    // rpm, steps per minute of one foot for running
+    cadence?: number;
+    // watts
+    power?: number;
+    // °C
+    temperature?: number;
+}
+
+export interface FitLap {
+    startTime?: Date;
+    timestamp?: Date;
+    startPositionLat?: number;
+    startPositionLong?: number;
+    endPositionLat?: number;
+    endPositionLong?: number;
+    // seconds
+    totalElapsedTime?: number;
+    totalTimerTime?: number;
+    // meters
+    totalDistance?: number;
+    totalAscent?: number;
+    totalDescent?: number;
+    // kcal
+    totalCalories?: number;
+    avgSpeed?: number;
+    maxSpeed?: number;
+    avgHeartRate?: number;
+    maxHeartRate?: number;
+    avgCadence?: number;
+    maxCadence?: number;
+    avgPower?: number;
+    maxPower?: number;
+}
+
+export interface FitSession extends Omit<FitLap, 'endPositionLat' | 'endPositionLong'> {
+    // FIT sport name, e.g. running, cycling, or sport_<n> for values not known here
+    sport?: string;
+    subSport?: number;
+    numLaps?: number;
+}
+
+export interface FitDeviceInfo {
+    timestamp?: Date;
+    deviceIndex?: number;
+    deviceType?: number;
+    manufacturer?: number;
+    product?: number;
+    productName?: string;
+    serialNumber?: number;
+    softwareVersion?: number;
+    hardwareVersion?: number;
+    // volts
+    batteryVoltage?: number;
+    batteryStatus?: number;
+}
+
+export interface FitActivity {
+    fileId?: FitFileId;
+    sessions: FitSession[];
+    laps: FitLap[];
+    records: FitRecord[];
+    devices: FitDeviceInfo[];
+}
+
+export interface FitDecodeOptions {
+    // verify the header and file CRC (default: true)
+    checkCrc?: boolean;
+}
+
+/**
+ * The data is not a FIT file, is truncated or fails the CRC check
+ */
+export class FitDecodeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FitDecodeError';
+    }
+}
+
+// seconds between the Unix epoch and the FIT epoch 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET = 631065600;
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+const FIT_SIGNATURE = '.FIT';
+const TIMESTAMP_FIELD = 253;
+
+const MESG_FILE_ID = 0;
+const MESG_SESSION = 18;
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+const MESG_DEVICE_INFO = 23;
+
+type Converter = 'date' | 'position' | 'string';
+
+/**
+ * [name, scale, offset] or [name, converter], value = raw / scale - offset
+ */
+type FieldSpec = [string, number?, number?] | [string, Converter];
+
+const FILE_ID_FIELDS: Record<number, FieldSpec> = {
+    0: ['type'],
+    1: ['manufacturer'],
+    2: ['product'],
+    3: ['serialNumber'],
+    4: ['timeCreated', 'date'],
+};
+
+const LAP_FIELDS: Record<number, FieldSpec> = {
+    [TIMESTAMP_FIELD]: ['timestamp', 'date'],
+    2: ['startTime', 'date'],
+    3: ['startPositionLat', 'position'],
+    4: ['startPositionLong', 'position'],
+    5: ['endPositionLat', 'position'],
+    6: ['endPositionLong', 'position'],
+    7: ['totalElapsedTime', 1000],
+    8: ['totalTimerTime', 1000],
+    9: ['totalDistance', 100],
+    11: ['totalCalories'],
+    13: ['avgSpeed', 1000],
+    14: ['maxSpeed', 1000],
+    15: ['avgHeartRate'],
+    16: ['maxHeartRate'],
+    17: ['avgCadence'],
+    18: ['maxCadence'],
+    19: ['avgPower'],
+    20: ['maxPower'],
+    21: ['totalAscent'],
+    22: ['totalDescent'],
+    110: ['enhancedAvgSpeed', 1000],
+    111: ['enhancedMaxSpeed', 1000],
+};
+
+const SESSION_FIELDS: Record<number, FieldSpec> = {
+    [TIMESTAMP_FIELD]: ['timestamp', 'date'],
+    2: ['startTime', 'date'],
+    3: ['startPositionLat', 'position'],
+    4: ['startPositionLong', 'position'],
+    5: ['sport'],
+    6: ['subSport'],
+    7: ['totalElapsedTime', 1000],
+    8: ['totalTimerTime', 1000],
+    9: ['totalDistance', 100],
+    11: ['totalCalories'],
+    14: ['avgSpeed', 1000],
+    15: ['maxSpeed', 1000],
+    16: ['avgHeartRate'],
+    17: ['maxHeartRate'],
+    18: ['avgCadence'],
+    19: ['maxCadence'],
+    20: ['avgPower'],
+    21: ['maxPower'],
+    22: ['totalAscent'],
+    23: ['totalDescent'],
+    26: ['numLaps'],
+    124: ['enhancedAvgSpeed', 1000],
+    125: ['enhancedMaxSpeed', 1000],
+};
+
+const RECORD_FIELDS: Record<number, FieldSpec> = {
+    [TIMESTAMP_FIELD]: ['timestamp', 'date'],
+    0: ['positionLat', 'position'],
+    1: ['positionLong', 'position'],
+    2: ['altitude', 5, 500],
+    3: ['heartRate'],
+    4: ['cadence'],
+    5: ['distance', 100],
+    6: ['speed', 1000],
+    7: ['power'],
+    13: ['temperature'],
+    73: ['enhancedSpeed', 1000],
+    78: ['enhancedAltitude', 5, 500],
+};
+
+const DEVICE_INFO_FIELDS: Record<number, FieldSpec> = {
+    [TIMESTAMP_FIELD]: ['timestamp', 'date'],
+    0: ['deviceIndex'],
+    1: ['deviceType'],
+    2: ['manufacturer'],
+    3: ['serialNumber'],
+    4: ['product'],
+    5: ['softwareVersion', 100],
+    6: ['hardwareVersion'],
+    10: ['batteryVoltage', 256],
+    11: ['batteryStatus'],
+    27: ['productName', 'string'],
+};
+
+const MESSAGE_FIELDS: Record<number, Record<number, FieldSpec>> = {
+    [MESG_FILE_ID]: FILE_ID_FIELDS,
+    [MESG_SESSION]: SESSION_FIELDS,
+    [MESG_LAP]: LAP_FIELDS,
+    [MESG_RECORD]: RECORD_FIELDS,
+    [MESG_DEVICE_INFO]: DEVICE_INFO_FIELDS,
+};
+
+// FIT profile sport enum
+const SPORTS: Record<number, string> = {
+    0: 'generic', 1: 'running', 2: 'cycling', 3: 'transition', 4: 'fitness_equipment', 5: 'swimming',
+    6: 'basketball', 7: 'soccer', 8: 'tennis', 9: 'american_football', 10: 'training', 11: 'walking',
+    12: 'cross_country_skiing', 13: 'alpine_skiing', 14: 'snowboarding', 15: 'rowing', 16: 'mountaineering',
+    17: 'hiking', 18: 'multisport', 19: 'paddling', 20: 'flying', 21: 'e_biking', 22: 'motorcycling',
+    23: 'boating', 24: 'driving', 25: 'golf', 26: 'hang_gliding', 27: 'horseback_riding', 28: 'hunting',
+    29: 'fishing', 30: 'inline_skating', 31: 'rock_climbing', 32: 'sailing', 33: 'ice_skating',
+    34: 'sky_diving', 35: 'snowshoeing', 36: 'snowmobiling', 37: 'stand_up_paddleboarding', 38: 'surfing',
+    39: 'wakeboarding', 40: 'water_skiing', 41: 'kayaking', 42: 'rafting', 43: 'windsurfing', 44: 'kitesurfing',
+    45: 'tactical', 46: 'jumpmaster', 47: 'boxing', 48: 'floor_climbing', 53: 'diving', 62: 'hiit',
+    64: 'racket', 76: 'water_tubing', 77: 'wakesurfing', 254: 'all',
+};
+
+interface BaseType {
+    size: number;
+    // undefined for strings and bytes
+    read?: (data: Buffer, offset: number, littleEndian: boolean) => number;
+    invalid?: number;
+}
+
+const readUInt64 = (data: Buffer, offset: number, littleEndian: boolean): number => {
+    return Number(littleEndian ? data.readBigUInt64LE(offset) : data.readBigUInt64BE(offset));
+};
+
+const readSInt64 = (data: Buffer, offset: number, littleEndian: boolean): number => {
+    return Number(littleEndian ? data.readBigInt64LE(offset) : data.readBigInt64BE(offset));
+};
+
+// by base type number, the low 5 bits of the base type byte
+const BASE_TYPES: Record<number, BaseType> = {
+    0x00: { size: 1, read: (d, o) => d.readUInt8(o), invalid: 0xFF }, // enum
+    0x01: { size: 1, read: (d, o) => d.readInt8(o), invalid: 0x7F }, // sint8
+    0x02: { size: 1, read: (d, o) => d.readUInt8(o), invalid: 0xFF }, // uint8
+    0x03: { size: 2, read: (d, o, le) => le ? d.readInt16LE(o) : d.readInt16BE(o), invalid: 0x7FFF },
+    0x04: { size: 2, read: (d, o, le) => le ? d.readUInt16LE(o) : d.readUInt16BE(o), invalid: 0xFFFF },
+    0x05: { size: 4, read: (d, o, le) => le ? d.readInt32LE(o) : d.readInt32BE(o), invalid: 0x7FFFFFFF },
+    0x06: { size: 4, read: (d, o, le) => le ? d.readUInt32LE(o) : d.readUInt32BE(o), invalid: 0xFFFFFFFF },
+    0x07: { size: 1 }, // string
+    0x08: { size: 4, read: (d, o, le) => le ? d.readFloatLE(o) : d.readFloatBE(o), invalid: NaN },
+    0x09: { size: 8, read: (d, o, le) => le ? d.readDoubleLE(o) : d.readDoubleBE(o), invalid: NaN },
+    0x0A: { size: 1, read: (d, o) => d.readUInt8(o), invalid: 0 }, // uint8z
+    0x0B: { size: 2, read: (d, o, le) => le ? d.readUInt16LE(o) : d.readUInt16BE(o), invalid: 0 },
+    0x0C: { size: 4, read: (d, o, le) => le ? d.readUInt32LE(o) : d.readUInt32BE(o), invalid: 0 },
+    0x0D: { size: 1 }, // byte
+    // 64 bit invalid values as rounded by Number()
+    0x0E: { size: 8, read: readSInt64, invalid: 2 ** 63 },
+    0x0F: { size: 8, read: readUInt64, invalid: 2 ** 64 },
+    0x10: { size: 8, read: readUInt64, invalid: 0 }, // uint64z
+};
+
+interface FieldDefinition {
+    num: number;
+    size: number;
+    baseType: number;
+}
+
+interface MessageDefinition {
+    globalNum: number;
+    littleEndian: boolean;
+    fields: FieldDefinition[];
+    // total size of developer fields, skipped
+    developerSize: number;
+}
+
+/**
+ * CRC-16 of the FIT protocol
+ */
+const CRC_TABLE = [
+    0x0000, 0xCC01, 0xD801, 0x1400, 0xF001, 0x3C00, 0x2800, 0xE401,
+    0xA001, 0x6C00, 0x7800, 0xB401, 0x5000, 0x9C01, 0x8801, 0x4400,
+];
+
+export const fitCrc = (data: Buffer, start = 0, end = data.length): number => {
+    let crc = 0;
+    for (let i = start; i < end; i++) {
+        const byte = data[i];
+        let tmp = CRC_TABLE[crc & 0xF];
+        crc = (crc >> 4) & 0x0FFF;
+        crc = crc ^ tmp ^ CRC_TABLE[byte & 0xF];
+        tmp = CRC_TABLE[crc & 0xF];
+        crc = (crc >> 4) & 0x0FFF;
+        crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xF];
+    }
+    return crc;
+};
+
+const toDate = (fitTimestamp: number): Date => new Date((fitTimestamp + FIT_EPOCH_OFFSET) * 1000);
+
+/**
+ * Value of one field, undefined if it is invalid or of a type not decoded here
+ * Fields holding several values (arrays) return the first valid one.
+ */
+const readFieldValue = (data: Buffer, offset: number, field: FieldDefinition, littleEndian: boolean): number | string | undefined => {
+    const baseType = BASE_TYPES[field.baseType & 0x1F];
+    if (!baseType) {
+        return undefined;
+    }
+    if ((field.baseType & 0x1F) === 0x07) {
+        const text = data.toString('utf8', offset, offset + field.size);
+        const end = text.indexOf('\u0000');
+        const value = end === -1 ? text : text.slice(0, end);
+        return value || undefined;
+    }
+    if (!baseType.read) {
+        return undefined;
+    }
+    for (let i = 0; i + baseType.size <= field.size; i += baseType.size) {
+        const value = baseType.read(data, offset + i, littleEndian);
+        if (value !== baseType.invalid && !Number.isNaN(value)) {
+            return value;
+        }
+    }
+    return undefined;
+};
+
+const convertValue = (spec: FieldSpec, value: number | string): any => {
+    const [, scaleOrConverter, offset] = spec;
+    if (scaleOrConverter === 'date') {
+        return toDate(Number(value));
+    }
+    if (scaleOrConverter === 'position') {
+        return Number(value) * SEMICIRCLES_TO_DEGREES;
+    }
+    if (scaleOrConverter === 'string' || typeof value === 'string') {
+        return String(value);
+    }
+    return value / (scaleOrConverter ?? 1) - (offset ?? 0);
+};
+
+/**
+ * Prefer the 32 bit enhanced_* fields, the 16 bit ones overflow on high speeds and altitudes
+ */
+const applyEnhancedFields = (message: Record<string, any>): Record<string, any> => {
+    const { enhancedSpeed, enhancedAltitude, enhancedAvgSpeed, enhancedMaxSpeed, ...rest } = message;
+    if (enhancedSpeed !== undefined) {
+        rest.speed = enhancedSpeed;
+    }
+    if (enhancedAltitude !== undefined) {
+        rest.altitude = enhancedAltitude;
+    }
+    if (enhancedAvgSpeed !== undefined) {
+        rest.avgSpeed = enhancedAvgSpeed;
+    }
+    if (enhancedMaxSpeed !== undefined) {
+        rest.maxSpeed = enhancedMaxSpeed;
+    }
+    return rest;
+};
+
+const readHeader = (data: Buffer, offset: number, checkCrc: boolean): { headerSize: number; dataSize: number } => {
+    if (data.length - offset < 12) {
+        throw new FitDecodeError('truncated FIT header');
+    }
+    const headerSize = data.readUInt8(offset);
+    if (headerSize < 12 || data.length - offset < headerSize) {
+        throw new FitDecodeError(`invalid FIT header size ${headerSize}`);
+    }
+    if (data.toString('ascii', offset + 8, offset + 12) !== FIT_SIGNATURE) {
+        throw new FitDecodeError('not a FIT file, missing .FIT signature');
+    }
+    const dataSize = data.readUInt32LE(offset + 4);
+    if (offset + headerSize + dataSize + 2 > data.length) {
+        throw new FitDecodeError(`truncated FIT file, expected ${dataSize} bytes of records`);
+    }
+    // a header CRC of 0 means it was not computed
+    if (checkCrc && headerSize >= 14) {
+        const headerCrc = data.readUInt16LE(offset + 12);
+        if (headerCrc !== 0 && headerCrc !== fitCrc(data, offset, offset + 12)) {
+            throw new FitDecodeError('FIT header CRC mismatch');
+        }
+    }
+    if (checkCrc) {
+        const end = offset + headerSize + dataSize;
+        if (data.readUInt16LE(end) !== fitCrc(data, offset, end)) {
+            throw new FitDecodeError('FIT file CRC mismatch, the file is corrupt');
+        }
+    }
+    return { headerSize, dataSize };
+};
+
+/**
+ * Decode the records of one FIT file of a chain, adding the messages to the activity
+ * @returns offset of the next FIT file
+ */
+const decodeFitFile = (data: Buffer, start: number, activity: FitActivity, checkCrc: boolean): number => {
+    const { headerSize, dataSize } = readHeader(data, start, checkCrc);
+    const end = start + headerSize + dataSize;
+    const definitions = new Map<number, MessageDefinition>();
+    let lastTimestamp = 0;
+    let offset = start + headerSize;
+
+    while (offset < end) {
+        const recordStart = offset;
+        const recordHeader = data.readUInt8(offset++);
+        const compressedTimestamp = (recordHeader & 0x80) !== 0;
+
+        if (!compressedTimestamp && (recordHeader & 0x40) !== 0) {
+            // definition message
+            const localNum = recordHeader & 0x0F;
+            const hasDeveloperFields = (recordHeader & 0x20) !== 0;
+            const littleEndian = data.readUInt8(offset + 1) === 0;
+            const globalNum = littleEndian ? data.readUInt16LE(offset + 2) : data.readUInt16BE(offset + 2);
+            const numFields = data.readUInt8(offset + 4);
+            offset += 5;
+            const fields: FieldDefinition[] = [];
+            for (let i = 0; i < numFields; i++, offset += 3) {
+                fields.push({ num: data.readUInt8(offset), size: data.readUInt8(offset + 1), baseType: data.readUInt8(offset + 2) });
+            }
+            let developerSize = 0;
+            if (hasDeveloperFields) {
+                const numDeveloperFields = data.readUInt8(offset++);
+                for (let i = 0; i < numDeveloperFields; i++, offset += 3) {
+                    developerSize += data.readUInt8(offset + 1);
+                }
+            }
+            if (offset > end) {
+                throw new FitDecodeError(`definition at byte ${recordStart} runs past the end of the records`);
+            }
+            definitions.set(localNum, { globalNum, littleEndian, fields, developerSize });
+            continue;
+        }
+
+        const localNum = compressedTimestamp ? (recordHeader >> 5) & 0x03 : recordHeader & 0x0F;
+        const definition = definitions.get(localNum);
+        if (!definition) {
+            throw new FitDecodeError(`data message for undefined local message type ${localNum} at byte ${recordStart}`);
+        }
+        const raw: Record<number, number | string> = {};
+        for (const field of definition.fields) {
+            const value = readFieldValue(data, offset, field, definition.littleEndian);
+            if (value !== undefined) {
+                raw[field.num] = value;
+            }
+            offset += field.size;
+        }
+        offset += definition.developerSize;
+        if (offset > end) {
+            throw new FitDecodeError(`message at byte ${recordStart} runs past the end of the records`);
+        }
+
+        if (raw[TIMESTAMP_FIELD] !== undefined) {
+            lastTimestamp = Number(raw[TIMESTAMP_FIELD]);
+        } else if (compressedTimestamp) {
+            const timeOffset = recordHeader & 0x1F;
+            // the offset holds the low 5 bits of the timestamp and rolls over every 32 seconds
+            const lastOffset = lastTimestamp % 32;
+            lastTimestamp = lastTimestamp - lastOffset + timeOffset + (timeOffset < lastOffset ? 32 : 0);
+            raw[TIMESTAMP_FIELD] = lastTimestamp;
+        }
+
+        const specs = MESSAGE_FIELDS[definition.globalNum];
+        if (!specs) {
+            continue;
+        }
+        const message: Record<string, any> = {};
+        for (const [num, value] of Object.entries(raw)) {
+            const spec = specs[Number(num)];
+            if (spec) {
+                message[spec[0]] = convertValue(spec, value);
+            }
+        }
+        addMessage(activity, definition.globalNum, applyEnhancedFields(message));
+    }
+    return end + 2;
+};
+
+const addMessage = (activity: FitActivity, globalNum: number, message: Record<string, any>) => {
+    switch (globalNum) {
+        case MESG_FILE_ID:
+            // the first file of a chain describes the activity
+            activity.fileId = activity.fileId ?? message;
+            break;
+        case MESG_SESSION:
+            if (message.sport !== undefined) {
+                message.sport = SPORTS[message.sport] ?? `sport_${message.sport}`;
+            }
+            activity.sessions.push(message);
+            break;
+        case MESG_LAP:
+            activity.laps.push(message);
+            break;
+        case MESG_RECORD:
+            // records without time can not be placed on the track
+            if (message.timestamp) {
+                activity.records.push(message as FitRecord);
+            }
+            break;
+        case MESG_DEVICE_INFO:
+            activity.devices.push(message);
+            break;
+    }
+};
+
+/**
+ * Decode a FIT activity
+ * @throws FitDecodeError if the data is not a valid FIT file
+ */
+export const decodeFit = (data: Buffer, options: FitDecodeOptions = {}): FitActivity => {
+    const checkCrc = options.checkCrc ?? true;
+    const activity: FitActivity = { sessions: [], laps: [], records: [], devices: [] };
+    let offset = 0;
+    do {
+        try {
+            offset = decodeFitFile(data, offset, activity, checkCrc);
+        } catch (e: any) {
+            // a definition cut off at the end of the buffer
+            throw e instanceof RangeError ? new FitDecodeError(`truncated FIT file: ${e.message}`) : e;
+        }
+        // some devices pad the file after the last CRC
+    } while (offset + 12 <= data.length && data.toString('ascii', offset + 8, offset + 12) === FIT_SIGNATURE);
+    return activity;
+};
+
+/**
+ * Decode a downloaded FIT file, e.g. from the activity archive
+ * @throws FitDecodeError if the file is not a valid FIT file
+ */
+export const readFitFile = (filePath: string, options?: FitDecodeOptions): FitActivity => {
+    return decodeFit(fs.readFileSync(filePath), options);
+};
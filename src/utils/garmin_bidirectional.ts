@@ -0,0 +1,69 @@
+import { getGaminCNClient } from './garmin_cn';
+import { getGaminGlobalClient } from './garmin_global';
+import { getConfig } from './config';
+import { getSyncLedgerEntriesByDest } from './sqlite';
+import { getQueuedActivityIds } from './retry_queue';
+import { createGarminEndpoint, createGarminSyncHooks, SyncHooks, syncBetweenEndpoints } from './sync_endpoint';
+import { GarminClientType, GarminRegion } from './type';
+
+/**
+ * Bidirectional sync between the CN and Global accounts
+ * Both activity lists are fetched first, then each direction runs through syncBetweenEndpoints.
+ * An activity is never exported back to the region it came from: copies uploaded by this tool are
+ * recognized by the destination id in the sync ledger, everything else by fingerprint matching.
+ */
+
+/**
+ * Hooks of one direction: the Garmin sync hooks on the activities listed before either direction uploaded,
+ * skipping the copies of the destination's own activities instead of a ledger baseline, since the newest
+ * activity of one side says nothing about what the other side is missing
+ */
+const createDirectionHooks = (
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    sourceClient: GarminClientType,
+    destClient: GarminClientType,
+    sourceActs: Record<string, any>[],
+    mirror?: boolean,
+): SyncHooks => ({
+    ...createGarminSyncHooks(sourceRegion, destRegion, sourceClient, destClient, mirror),
+    listActivities: async function* () {
+        yield sourceActs;
+    },
+    excludeActivities: async acts => {
+        const copyEntries = await getSyncLedgerEntriesByDest(destRegion, sourceRegion, acts.map(act => String(act.activityId)));
+        console.log(`${sourceRegion} -> ${destRegion}: ${copyEntries.length} copies from ${destRegion} skipped`);
+        const queuedIds = await getQueuedActivityIds(sourceRegion, destRegion);
+        return new Set([...copyEntries.map(e => e.destActivityId!), ...queuedIds]);
+    },
+});
+
+/**
+ * 双向同步中国区与国际区
+ * @param options dryRun: 只输出两个方向的同步计划，不下载、上传，也不添加 AI Insights
+ *                mirror: 同步两个方向已同步活动的删除、改名及描述修改，未指定时使用 GARMIN_MIRROR_CHANGES
+ */
+export const syncGarminBidirectional = async (options: { dryRun?: boolean; mirror?: boolean } = {}) => {
+    const clientCN = await getGaminCNClient();
+    const clientGlobal = await getGaminGlobalClient();
+
+    // list both sides before uploading, so copies made in this run are never part of the other direction
+    const { syncNum } = getConfig().garmin;
+    const cnActs = await clientCN.getActivities(0, syncNum);
+    const globalActs = await clientGlobal.getActivities(0, syncNum);
+    const directions = [
+        { sourceRegion: 'CN', destRegion: 'GLOBAL', sourceClient: clientCN, destClient: clientGlobal, sourceActs: cnActs },
+        { sourceRegion: 'GLOBAL', destRegion: 'CN', sourceClient: clientGlobal, destClient: clientCN, sourceActs: globalActs },
+    ] as const;
+
+    for (const { sourceRegion, destRegion, sourceClient, destClient, sourceActs } of directions) {
+        const { stopped } = await syncBetweenEndpoints(createGarminEndpoint(sourceRegion, sourceClient), createGarminEndpoint(destRegion, destClient), {
+            dryRun: options.dryRun,
+            hooks: createDirectionHooks(sourceRegion, destRegion, sourceClient, destClient, sourceActs, options.mirror),
+        });
+        // an expired login or rate limit stops the other direction too
+        if (stopped) {
+            break;
+        }
+    }
+};
@@ -2,6 +2,7 @@ import fs from 'fs';
 
 const core = require('@actions/core');
 import {
+    DAILYSYNC_PROFILE_DEFAULT,
     DOWNLOAD_DIR,
     FILE_SUFFIX,
     GARMIN_MIGRATE_NUM_DEFAULT,
@@ -10,52 +11,411 @@ import {
     GARMIN_URL_DEFAULT,
     GARMIN_USERNAME_DEFAULT,
 } from '../constant';
-import { GarminClientType } from './type';
+import { GarminClientType, GarminRegion, SyncService } from './type';
+import { getConfig } from './config';
 import _ from 'lodash';
+import {
+    countSyncLedgerEntries,
+    deleteMigrateCheckpoint,
+    getMigrateCheckpoint,
+    initMigrateCheckpointTable,
+    initSyncLedgerTable,
+    MigrateCheckpoint,
+    saveMigrateCheckpoint,
+    saveSyncLedgerEntry,
+} from './sqlite';
+import { archiveActivityFile, getArchivedFile, getClientRegion } from './archive';
+import { emitWebhookEvent } from './webhook';
 const decompress = require('decompress');
 
 const unzipper = require('unzipper');
 
+/**
+ * Result of uploading an activity file
+ * CREATED:      uploaded, activityId is missing when Garmin processes the file asynchronously
+ * DUPLICATE:    the activity already exists on the account (409 / "Duplicate Activity")
+ * REJECTED:     the file was refused, retrying the same file will not help
+ * AUTH_FAILED:  session expired or no permission (401 / 403)
+ * RATE_LIMITED: too many requests (429)
+ * FAILED:       network or unknown error
+ */
+export type UploadStatus = 'CREATED' | 'DUPLICATE' | 'REJECTED' | 'AUTH_FAILED' | 'RATE_LIMITED' | 'FAILED';
+
+export interface UploadResult {
+    status: UploadStatus;
+    activityId?: string;
+    message?: string;
+}
+
+// Garmin upload failure message code for duplicate activities
+const GARMIN_DUPLICATE_ACTIVITY_CODE = 202;
+
+export const isUploadSucceeded = (result: UploadResult | undefined): boolean => {
+    return result?.status === 'CREATED' || result?.status === 'DUPLICATE';
+};
+
+/**
+ * Failures that will hit every following upload too, the run should stop instead of continuing
+ */
+export const isFatalUploadStatus = (status: UploadStatus | undefined): boolean => {
+    return status === 'AUTH_FAILED' || status === 'RATE_LIMITED';
+};
+
+const parseUploadResponse = (upload: Record<string, any> | undefined): UploadResult => {
+    const importResult = upload?.detailedImportResult;
+    const success = importResult?.successes?.[0];
+    if (success) {
+        return { status: 'CREATED', activityId: success.internalId ? String(success.internalId) : undefined };
+    }
+    const failure = importResult?.failures?.[0];
+    if (failure) {
+        const messages: Record<string, any>[] = failure.messages ?? [];
+        const message = messages.map(m => m.content).join('; ') || 'Upload failed';
+        const isDuplicate = messages.some(m => m.code === GARMIN_DUPLICATE_ACTIVITY_CODE || /duplicate/i.test(m.content ?? ''));
+        return {
+            status: isDuplicate ? 'DUPLICATE' : 'REJECTED',
+            activityId: isDuplicate && failure.internalId ? String(failure.internalId) : undefined,
+            message,
+        };
+    }
+    return { status: 'CREATED' };
+};
+
+/**
+ * HTTP status code of a failed Garmin request, parsed from the message when the error has no response
+ */
+export const getErrorStatusCode = (error: any): number => {
+    const message = error?.message || error?.statusText || '';
+    return Number(error?.response?.status || error?.status || /\b([45]\d\d)\b/.exec(message)?.[1]);
+};
+
+const parseUploadError = (error: any): UploadResult => {
+    const message = error?.message || error?.statusText || 'Unknown error';
+    const statusCode = getErrorStatusCode(error);
+    const responseData = error?.response?.data;
+    if (statusCode === 409) {
+        const result = parseUploadResponse(responseData);
+        return { status: 'DUPLICATE', activityId: result.activityId, message: result.message ?? message };
+    }
+    if (responseData?.detailedImportResult?.failures?.length) {
+        return parseUploadResponse(responseData);
+    }
+    if (statusCode === 401 || statusCode === 403) {
+        return { status: 'AUTH_FAILED', message };
+    }
+    if (statusCode === 429) {
+        return { status: 'RATE_LIMITED', message };
+    }
+    if (statusCode === 400 || statusCode === 413 || statusCode === 415 || statusCode === 422) {
+        return { status: 'REJECTED', message };
+    }
+    return { status: 'FAILED', message };
+};
+
+/**
+ * 当前配置档案的下载目录，不存在时创建
+ */
+export const getDownloadDir = (): string => {
+    const { profile } = getConfig();
+    const dir = profile === DAILYSYNC_PROFILE_DEFAULT ? DOWNLOAD_DIR : `${DOWNLOAD_DIR}/${profile}`;
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+    return dir;
+};
+
 /**
  * 上传 .fit file
  * @param fitFilePath
  * @param client
+ * @param format 文件格式，默认 fit，上传 .gpx / .tcx 文件时指定
  */
-export const uploadGarminActivity = async (fitFilePath: string, client: GarminClientType): Promise<void> => {
-    if (!fs.existsSync(DOWNLOAD_DIR)) {
-        fs.mkdirSync(DOWNLOAD_DIR);
-    }
+export const uploadGarminActivity = async (
+    fitFilePath: string,
+    client: GarminClientType,
+    format?: 'fit' | 'gpx' | 'tcx',
+): Promise<UploadResult> => {
+    let result: UploadResult;
     try {
-        const upload = await client.uploadActivity(fitFilePath);
+        const upload = await client.uploadActivity(fitFilePath, format);
         console.log('upload to garmin activity', upload);
+        result = parseUploadResponse(upload);
     } catch (error) {
         console.log('upload to garmin activity error', error);
+        result = parseUploadError(error);
+    }
+    if (!isUploadSucceeded(result)) {
+        console.log(`upload to garmin activity ${result.status}: ${result.message}`);
+    }
+    return result;
+};
+
+/**
+ * Fields used to recognize the same activity across regions,
+ * the activity IDs differ after upload so they can not be compared directly
+ */
+export interface ActivityFingerprint {
+    startTime: number; // epoch ms of startTimeGMT (startTimeLocal as fallback)
+    duration: number; // seconds
+    distance: number; // meters
+    typeKey: string;
+}
+
+// 容差：时间取整及不同区处理FIT文件时的细微差异
+const FINGERPRINT_START_TOLERANCE_MS = 60 * 1000;
+const FINGERPRINT_DURATION_TOLERANCE_S = 5;
+const FINGERPRINT_DISTANCE_TOLERANCE_M = 10;
+
+const parseGarminTime = (time: string | undefined): number => {
+    if (!time) return NaN;
+    // Garmin returns 'YYYY-MM-DD HH:mm:ss', startTimeGMT has no zone suffix
+    return new Date(time.replace(' ', 'T') + 'Z').getTime();
+};
+
+export const getActivityFingerprint = (act: Record<string, any>): ActivityFingerprint => ({
+    startTime: parseGarminTime(act.startTimeGMT ?? act.startTimeLocal),
+    duration: Number(act.duration ?? 0),
+    distance: Number(act.distance ?? 0),
+    typeKey: act.activityType?.typeKey ?? '',
+});
+
+export const isSameFingerprint = (a: ActivityFingerprint, b: ActivityFingerprint): boolean => {
+    return Math.abs(a.startTime - b.startTime) <= FINGERPRINT_START_TOLERANCE_MS
+        && Math.abs(a.duration - b.duration) <= Math.max(FINGERPRINT_DURATION_TOLERANCE_S, a.duration * 0.01)
+        && Math.abs(a.distance - b.distance) <= Math.max(FINGERPRINT_DISTANCE_TOLERANCE_M, a.distance * 0.01)
+        && a.typeKey === b.typeKey;
+};
+
+/**
+ * Looser match for files from outside Garmin, whose duration, distance and sport are computed differently
+ */
+export const isSameStartTime = (a: ActivityFingerprint, b: ActivityFingerprint): boolean => {
+    return Math.abs(a.startTime - b.startTime) <= FINGERPRINT_START_TOLERANCE_MS;
+};
+
+export interface DuplicateActivity {
+    act: Record<string, any>;
+    existing: Record<string, any>;
+}
+
+/**
+ * Look up source activities on the destination account
+ * The destination activity list is paged lazily (newest first) only as far back as the queried activities,
+ * so queries should be made from the newest activity to the oldest. Fingerprints newer than the
+ * queried activity are dropped once passed, keeping memory bounded on long migrations.
+ * @param destClient GarminClientType of the destination region
+ * @param pageSize
+ * @param isSame how activities are matched, isSameFingerprint by default
+ */
+export const createDuplicateChecker = (
+    destClient: GarminClientType,
+    pageSize = 100,
+    isSame: (a: ActivityFingerprint, b: ActivityFingerprint) => boolean = isSameFingerprint,
+) => {
+    let destFingerprints: { existing: Record<string, any>; fingerprint: ActivityFingerprint }[] = [];
+    let nextStart = 0;
+    let exhausted = false;
+
+    const find = async (act: Record<string, any>): Promise<Record<string, any> | undefined> => {
+        const fingerprint = getActivityFingerprint(act);
+        const sinceTime = fingerprint.startTime - FINGERPRINT_START_TOLERANCE_MS;
+        while (!exhausted && (destFingerprints.length === 0 || !(_.last(destFingerprints)!.fingerprint.startTime < sinceTime))) {
+            const page = await destClient.getActivities(nextStart, pageSize);
+            nextStart += pageSize;
+            exhausted = page.length < pageSize;
+            destFingerprints.push(...page.map(existing => ({ existing, fingerprint: getActivityFingerprint(existing) })));
+        }
+        destFingerprints = destFingerprints.filter(d => !(d.fingerprint.startTime > fingerprint.startTime + FINGERPRINT_START_TOLERANCE_MS));
+        return destFingerprints.find(d => isSame(fingerprint, d.fingerprint))?.existing;
+    };
+
+    return { find };
+};
+
+/**
+ * Split candidate activities into the ones missing on the destination account and the ones already present
+ * Activities without a start time can not be matched and count as missing.
+ * @param candidateActs activities from the source region
+ * @param destClient GarminClientType of the destination region
+ * @param isSame how activities are matched, isSameFingerprint by default
+ * @param checker shared with earlier calls for older candidates, so the destination list is paged only once
+ */
+export const findDuplicateActivities = async (
+    candidateActs: Record<string, any>[],
+    destClient: GarminClientType,
+    isSame: (a: ActivityFingerprint, b: ActivityFingerprint) => boolean = isSameFingerprint,
+    checker = createDuplicateChecker(destClient, 100, isSame),
+): Promise<{ newActs: Record<string, any>[]; duplicates: DuplicateActivity[] }> => {
+    const duplicateMap = new Map<Record<string, any>, Record<string, any>>();
+    const datedActs = candidateActs.filter(act => !isNaN(getActivityFingerprint(act).startTime));
+    for (const act of _.sortBy(datedActs, act => -getActivityFingerprint(act).startTime)) {
+        const existing = await checker.find(act);
+        if (existing) {
+            duplicateMap.set(act, existing);
+        }
     }
+    return {
+        newActs: candidateActs.filter(act => !duplicateMap.has(act)),
+        duplicates: candidateActs.filter(act => duplicateMap.has(act)).map(act => ({ act, existing: duplicateMap.get(act)! })),
+    };
 };
 
 /**
- * 下载 garmin 活动原始数据，并解压保存到本地
+ * Which activities of a region to process, either a list window or a date range
+ * startIndex/limit: position in the activity list (newest first), as used by GARMIN_MIGRATE_START/GARMIN_MIGRATE_NUM
+ * since/until: inclusive YYYY-MM-DD dates of startTimeLocal
+ * before: exclusive startTimeLocal bound, used to skip activities already processed by a previous run
+ */
+export interface ActivitySelection {
+    startIndex?: number;
+    limit?: number;
+    since?: string;
+    until?: string;
+    before?: string;
+}
+
+export interface IndexedActivity {
+    act: Record<string, any>;
+    index: number; // position in the activity list of the region
+}
+
+/**
+ * Page through the activity list of a region, newest first, yielding the selected activities page by page
+ * Paging stops as soon as the selection is covered, so the whole history is never loaded at once.
+ * @param client GarminClientType
+ * @param selection
+ * @param pageSize
+ */
+export async function* iterateActivityPages(
+    client: GarminClientType,
+    selection: ActivitySelection,
+    pageSize = 100,
+): AsyncGenerator<IndexedActivity[]> {
+    const { since, until, before, limit } = selection;
+    let start = selection.startIndex ?? 0;
+    let remaining = limit ?? Infinity;
+
+    while (remaining > 0) {
+        const page: Record<string, any>[] = await client.getActivities(start, pageSize);
+        const selected: IndexedActivity[] = [];
+        let reachedEnd = page.length < pageSize;
+        for (let i = 0; i < page.length && remaining > 0; i++) {
+            const act = page[i];
+            const date = String(act.startTimeLocal).slice(0, 10);
+            if (since && date < since) {
+                reachedEnd = true;
+                break;
+            }
+            if ((until && date > until) || (before && !(act.startTimeLocal < before))) {
+                continue;
+            }
+            selected.push({ act, index: start + i });
+            remaining--;
+        }
+        if (selected.length > 0) {
+            yield selected;
+        }
+        if (reachedEnd) {
+            break;
+        }
+        start += pageSize;
+    }
+}
+
+/**
+ * On the first run of a direction the sync ledger is empty, so source activities not newer than the latest
+ * destination activity are recorded as BASELINE instead of being uploaded again.
+ * @param sourceActs activities from the source region
+ * @param sourceRegion
+ * @param destRegion
+ * @param destClient GarminClientType of the destination region
+ * @param dryRun do not write the BASELINE entries to the ledger
+ * @returns ids of the baseline activities, empty once the direction has ledger entries
+ */
+export const initSyncLedgerBaseline = async (
+    sourceActs: Record<string, any>[],
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    destClient: GarminClientType,
+    dryRun = false,
+): Promise<Set<string>> => {
+    await initSyncLedgerTable();
+
+    const baselineIds = new Set<string>();
+    if (await countSyncLedgerEntries(sourceRegion, destRegion) === 0) {
+        const destActs = await destClient.getActivities(0, 1);
+        const latestDestActStartTime = destActs[0]?.startTimeLocal ?? '0';
+        const baselineActs = _.filter(sourceActs, act => act.startTimeLocal <= latestDestActStartTime);
+        for (const act of baselineActs) {
+            baselineIds.add(String(act.activityId));
+            if (!dryRun) {
+                await saveSyncLedgerEntry({
+                    sourceRegion,
+                    sourceActivityId: String(act.activityId),
+                    destRegion,
+                    status: 'BASELINE',
+                });
+            }
+        }
+        console.log(`Sync ledger: ${dryRun ? 'would initialize' : 'initialized'} ${sourceRegion} -> ${destRegion} with ${baselineActs.length} existing activities`);
+    }
+    return baselineIds;
+};
+
+/**
+ * Record the upload result of a source activity in the sync ledger
+ * @param upload return value of uploadGarminActivity, undefined when the download failed
+ */
+export const recordSyncResult = async (
+    sourceActivityId: string | number,
+    sourceRegion: SyncService,
+    destRegion: SyncService,
+    upload: UploadResult | undefined,
+): Promise<void> => {
+    await saveSyncLedgerEntry({
+        sourceRegion,
+        sourceActivityId: String(sourceActivityId),
+        destRegion,
+        destActivityId: upload?.activityId,
+        // Garmin rejecting the upload as a duplicate means the account already had its own copy
+        status: upload?.status === 'CREATED' ? 'SYNCED' : upload?.status === 'DUPLICATE' ? 'DUPLICATE' : 'FAILED',
+    });
+};
+
+/**
+ * 下载 garmin 活动原始数据，解压后存入本地归档，已归档的活动不再下载
  * @param activityId
  * @param client GarminClientType
+ * @returns 归档文件路径
  */
 export const downloadGarminActivity = async (activityId, client: GarminClientType): Promise<string> => {
-    if (!fs.existsSync(DOWNLOAD_DIR)) {
-        fs.mkdirSync(DOWNLOAD_DIR);
+    const region = getClientRegion(client);
+    const archived = await getArchivedFile(region, String(activityId));
+    if (archived) {
+        console.log('downloadGarminActivity - archived:', archived);
+        return archived;
     }
+    const downloadDir = getDownloadDir();
     const activity = await client.getActivity({ activityId: activityId });
-    await client.downloadOriginalActivityData(activity, DOWNLOAD_DIR);
-    const originZipFile = DOWNLOAD_DIR + '/' + activityId + '.zip';
-    const baseFilePath = `${DOWNLOAD_DIR}/`;
-    const unzipped = await decompress(originZipFile, DOWNLOAD_DIR);
-    const unzippedFileName = unzipped?.[0].path;
-    const path = baseFilePath + unzippedFileName;
-    console.log('downloadGarminActivity - path:', path)
-    return path;
+    await client.downloadOriginalActivityData(activity, downloadDir);
+    const originZipFile = downloadDir + '/' + activityId + '.zip';
+    const unzipDir = `${downloadDir}/${activityId}_unzipped`;
+    try {
+        const unzipped = await decompress(originZipFile, unzipDir);
+        const path = await archiveActivityFile(region, activity, `${unzipDir}/${unzipped?.[0].path}`);
+        console.log('downloadGarminActivity - path:', path);
+        return path;
+    } finally {
+        fs.rmSync(originZipFile, { force: true });
+        fs.rmSync(unzipDir, { recursive: true, force: true });
+    }
 };
 
-export const isDownloaded = (activityId, ) => {
-    const originZipFile = DOWNLOAD_DIR + '/' + activityId + '.zip';
-    return fs.existsSync(originZipFile)
+/**
+ * 活动是否已在本地归档中
+ */
+export const isDownloaded = async (activityId, region: GarminRegion = 'CN'): Promise<boolean> => {
+    return Boolean(await getArchivedFile(region, String(activityId)));
 };
 
 /**
@@ -139,6 +499,95 @@ export const hasActivityInsight = async (activityId: string | number, client: Ga
     }
 };
 
+/**
+ * Link the gear used by the source activity to the destination activity
+ * Gear belongs to each account, so it is matched by display name against the destination account's gear
+ */
+const copyActivityGear = async (
+    sourceActivityId: string | number,
+    sourceClient: GarminClientType,
+    destActivityId: string,
+    destClient: GarminClientType,
+): Promise<void> => {
+    const sourceGear: Record<string, any>[] = await sourceClient.client.get(sourceClient.url.GC_API + '/gear-service/gear/filterGear', {
+        params: { activityId: sourceActivityId },
+    });
+    if (_.isEmpty(sourceGear)) {
+        return;
+    }
+    const { profileId } = await destClient.getUserProfile();
+    const destGear: Record<string, any>[] = await destClient.client.get(destClient.url.GC_API + '/gear-service/gear/filterGear', {
+        params: { userProfilePk: profileId },
+    });
+    for (const gear of sourceGear) {
+        const match = _.find(destGear, g => g.displayName === gear.displayName && g.gearStatusName !== 'retired');
+        if (!match) {
+            console.log(`Metadata: gear 【 ${gear.displayName} 】 not found on destination account, skipping`);
+            continue;
+        }
+        await destClient.client.post(destClient.url.GC_API + `/gear-service/gear/link/${match.uuid}/activity/${destActivityId}`, {}, {
+            headers: {
+                'X-Http-Method-Override': 'PUT',
+            }
+        });
+    }
+};
+
+/**
+ * Overwrite name, description and privacy of an activity with the ones of another activity
+ * Uses PUT via X-Http-Method-Override like addActivityComment.
+ * @param source activity details from getActivity
+ */
+export const updateActivityMetadata = async (
+    activityId: string | number,
+    source: Record<string, any>,
+    client: GarminClientType,
+): Promise<void> => {
+    await client.client.post(client.url.ACTIVITY + activityId, {
+        activityId: Number(activityId),
+        activityName: source.activityName,
+        description: source.description ?? '',
+        ...(source.accessControlRuleDTO ? { accessControlRuleDTO: source.accessControlRuleDTO } : {}),
+    }, {
+        headers: {
+            'X-Http-Method-Override': 'PUT',
+        }
+    });
+};
+
+/**
+ * Copy name, description and privacy of a source activity onto its uploaded copy, then link the same gear
+ * Uploaded FIT files get a default name, so this runs after every upload that created a new activity.
+ * @param upload return value of uploadGarminActivity, nothing is copied unless it created an activity
+ * @returns true if the destination activity was updated, false otherwise
+ */
+export const copyActivityMetadata = async (
+    sourceActivityId: string | number,
+    sourceClient: GarminClientType,
+    upload: UploadResult | undefined,
+    destClient: GarminClientType,
+): Promise<boolean> => {
+    if (upload?.status !== 'CREATED' || !upload.activityId) {
+        return false;
+    }
+    const destActivityId = upload.activityId;
+    try {
+        const source = await sourceClient.getActivity({ activityId: sourceActivityId });
+        await updateActivityMetadata(destActivityId, source, destClient);
+        console.log(`Metadata: copied 【 ${source.activityName} 】 from ${sourceActivityId} to ${destActivityId}`);
+    } catch (error: any) {
+        const statusCode = error?.response?.status || error?.status || 'N/A';
+        console.error(`Metadata: Failed to update activity ${destActivityId} (status: ${statusCode}): ${error?.message ?? error}`);
+        return false;
+    }
+    try {
+        await copyActivityGear(sourceActivityId, sourceClient, destActivityId, destClient);
+    } catch (error: any) {
+        console.error(`Metadata: Failed to copy gear to activity ${destActivityId}: ${error?.message ?? error}`);
+    }
+    return true;
+};
+
 export const getGarminStatistics = async (client: GarminClientType): Promise<Record<string, any>> => {
     // Get a list of default length with most recent activities
     const acts = await client.getActivities(0, 10);
@@ -212,3 +661,108 @@ export const getGarminStatistics = async (client: GarminClientType): Promise<Rec
     // const detail = await GCClient.getActivity(recentRunningAct);
     // console.log('detail', detail);
 };
+
+/**
+ * Record a source activity that already exists on the destination account in the sync ledger
+ * Recorded as DUPLICATE so mirroring never renames or deletes the existing activity
+ */
+export const recordSyncDuplicate = async (
+    duplicate: DuplicateActivity,
+    sourceRegion: SyncService,
+    destRegion: SyncService,
+): Promise<void> => {
+    await saveSyncLedgerEntry({
+        sourceRegion,
+        sourceActivityId: String(duplicate.act.activityId),
+        destRegion,
+        destActivityId: String(duplicate.existing.activityId),
+        status: 'DUPLICATE',
+    });
+};
+
+export interface MigrateOptions {
+    reset?: boolean; // 忽略上次中断时保存的进度，重新开始迁移
+    since?: string; // YYYY-MM-DD
+    until?: string; // YYYY-MM-DD
+    dryRun?: boolean; // 只输出迁移计划，不下载、上传，也不保存进度
+}
+
+/**
+ * Start or resume a migration run from the saved checkpoint
+ * A checkpoint is reused only when the run window (startIndex/total or since/until) is unchanged,
+ * otherwise a new run starts. When resuming, activities not older than the last processed one are skipped,
+ * since activities recorded in the meantime shift the list.
+ * @returns the activity selection to migrate and the checkpoint to advance, undefined if the run is already completed
+ */
+export const startMigrateRun = async (
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    startIndex: number,
+    total: number,
+    options: MigrateOptions = {},
+): Promise<{ selection: ActivitySelection; checkpoint: MigrateCheckpoint } | undefined> => {
+    const { reset, since, until, dryRun } = options;
+    const byDate = Boolean(since || until);
+    await initMigrateCheckpointTable();
+    if (reset && !dryRun) {
+        await deleteMigrateCheckpoint(sourceRegion, destRegion);
+        console.log(`Migrate checkpoint: ${sourceRegion} -> ${destRegion} reset`);
+    }
+
+    const window = byDate
+        ? { startIndex: 0, total: 0, sinceDate: since, untilDate: until }
+        : { startIndex, total, sinceDate: undefined, untilDate: undefined };
+    let checkpoint = reset && dryRun ? undefined : await getMigrateCheckpoint(sourceRegion, destRegion);
+    const sameWindow = checkpoint
+        && checkpoint.startIndex === window.startIndex
+        && checkpoint.total === window.total
+        && checkpoint.sinceDate === window.sinceDate
+        && checkpoint.untilDate === window.untilDate;
+    if (!checkpoint || !sameWindow) {
+        checkpoint = { sourceRegion, destRegion, ...window, nextIndex: window.startIndex, status: 'RUNNING' };
+        if (!dryRun) {
+            await saveMigrateCheckpoint(checkpoint);
+        }
+    } else if (checkpoint.status === 'COMPLETED') {
+        console.log(`Migrate checkpoint: ${sourceRegion} -> ${destRegion} already completed at ${checkpoint.updatedAt}, use --reset to start over`);
+        return undefined;
+    } else {
+        console.log(`Migrate checkpoint: resume ${sourceRegion} -> ${destRegion} from index ${checkpoint.nextIndex}, last activity ${checkpoint.lastActivityId} (${checkpoint.lastStartTime})`);
+    }
+
+    const before = checkpoint.lastStartTime;
+    const selection: ActivitySelection = byDate
+        ? { since, until, before }
+        : { startIndex: checkpoint.nextIndex, limit: startIndex + total - checkpoint.nextIndex, before };
+    return { selection, checkpoint };
+};
+
+/**
+ * Save the progress of a migration run after an activity is processed
+ * @param checkpoint returned by startMigrateRun
+ * @param act the processed activity
+ * @param nextIndex list index of the next activity to process
+ */
+export const advanceMigrateCheckpoint = async (
+    checkpoint: MigrateCheckpoint,
+    act: Record<string, any>,
+    nextIndex: number,
+): Promise<void> => {
+    checkpoint.nextIndex = nextIndex;
+    checkpoint.lastActivityId = String(act.activityId);
+    checkpoint.lastStartTime = act.startTimeLocal;
+    await saveMigrateCheckpoint(checkpoint);
+};
+
+/**
+ * Mark a migration run as finished, emits migration.completed to the webhooks
+ */
+export const completeMigrateCheckpoint = async (checkpoint: MigrateCheckpoint): Promise<void> => {
+    checkpoint.status = 'COMPLETED';
+    await saveMigrateCheckpoint(checkpoint);
+    emitWebhookEvent('migration.completed', {
+        source: checkpoint.sourceRegion,
+        dest: checkpoint.destRegion,
+        ..._.pick(checkpoint, ['startIndex', 'total', 'sinceDate', 'untilDate', 'lastActivityId', 'lastStartTime']),
+    });
+};
@@ -0,0 +1,125 @@
+import { getConfig } from './config';
+import { getErrorStatusCode } from './garmin_common';
+import { decryptSession, getSessionFromDB, initDB, markSessionValidated, saveSessionToDB } from './sqlite';
+import { GarminClientType, GarminRegion } from './type';
+
+const { GarminConnect } = require('@gooin/garmin-connect');
+
+/**
+ * Saved Garmin sessions (OAuth1 + OAuth2 tokens)
+ * A saved session is only replaced by a password login when Garmin rejects it, tokens refreshed
+ * by the client during a run are written back so the next run starts with them.
+ */
+
+export interface SessionTokenExpiry {
+    accessExpiresAt?: Date;
+    refreshExpiresAt?: Date;
+}
+
+// Garmin answers with these when the tokens are no longer accepted
+const AUTH_ERROR_STATUS = [401, 403];
+
+export const isAuthError = (error: any): boolean => AUTH_ERROR_STATUS.includes(getErrorStatusCode(error));
+
+const toDate = (epochSeconds: any): Date | undefined => {
+    const value = Number(epochSeconds);
+    return value > 0 ? new Date(value * 1000) : undefined;
+};
+
+export const getSessionTokenExpiry = (session: Record<string, any>): SessionTokenExpiry => ({
+    accessExpiresAt: toDate(session?.oauth2?.expires_at),
+    refreshExpiresAt: toDate(session?.oauth2?.refresh_token_expires_at),
+});
+
+/**
+ * A session is usable if it has both tokens
+ */
+export const isSessionComplete = (session: Record<string, any> | undefined): boolean => {
+    return Boolean(session?.oauth1?.oauth_token && session?.oauth2?.access_token);
+};
+
+/**
+ * Decrypt a saved session
+ * @returns undefined if the row can not be decrypted or has no tokens
+ */
+export const readSessionRecord = (encryptedSession: string): Record<string, any> | undefined => {
+    try {
+        const session = decryptSession(encryptedSession);
+        return isSessionComplete(session) ? session : undefined;
+    } catch (e) {
+        return undefined;
+    }
+};
+
+/**
+ * Client for the account of the region in the current profile, not logged in yet
+ */
+export const createGarminClient = (region: GarminRegion): GarminClientType => {
+    const { username, password } = region === 'CN' ? getConfig().garmin.cn : getConfig().garmin.global;
+    return region === 'CN'
+        ? new GarminConnect({ username, password }, 'garmin.cn')
+        : new GarminConnect({ username, password });
+};
+
+/**
+ * Write tokens the client refreshes back to the database
+ */
+const persistSessionChanges = (client: GarminClientType, region: GarminRegion) => {
+    client.onSessionChange(async (tokens: Record<string, any>) => {
+        try {
+            await saveSessionToDB(region, tokens);
+        } catch (e: any) {
+            console.log(`Warn: failed to save refreshed ${region} session: ${e?.message ?? e}`);
+        }
+    });
+};
+
+/**
+ * Log in with the saved session only, refreshing the OAuth2 token once if Garmin rejects it
+ * @returns the user profile
+ * @throws the request error if the session is missing or no longer valid
+ */
+export const resumeSavedSession = async (client: GarminClientType, region: GarminRegion): Promise<Record<string, any>> => {
+    await initDB();
+    const saved = await getSessionFromDB(region);
+    if (!isSessionComplete(saved)) {
+        throw new Error(`No usable saved ${region} session`);
+    }
+    persistSessionChanges(client, region);
+    client.loadToken(saved!.oauth1, saved!.oauth2);
+    let profile: Record<string, any>;
+    try {
+        profile = await client.getUserProfile();
+    } catch (error) {
+        if (!isAuthError(error)) {
+            throw error;
+        }
+        await client.client.refreshOauth2Token();
+        profile = await client.getUserProfile();
+    }
+    await saveSessionToDB(region, client.exportToken());
+    await markSessionValidated(region);
+    return profile;
+};
+
+/**
+ * Log in with the saved session, or with the password if there is none or Garmin rejects it
+ * Other errors (network, rate limit) are thrown, they do not justify a password login.
+ * @returns the user profile
+ */
+export const loginGarminClient = async (client: GarminClientType, region: GarminRegion): Promise<Record<string, any>> => {
+    const { username, password } = region === 'CN' ? getConfig().garmin.cn : getConfig().garmin.global;
+    try {
+        console.log(`Garmin${region}: login by saved session`);
+        return await resumeSavedSession(client, region);
+    } catch (error: any) {
+        if (getErrorStatusCode(error) && !isAuthError(error)) {
+            throw error;
+        }
+        console.log(`Warn: renew Garmin${region} session (${error?.message ?? error})..`);
+    }
+    await client.login(username, password);
+    await saveSessionToDB(region, client.exportToken());
+    await markSessionValidated(region);
+    return await client.getUserProfile();
+};
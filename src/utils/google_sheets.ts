@@ -1,18 +1,15 @@
 import { JWT } from 'google-auth-library';
 import { google } from 'googleapis';
 
-import { GOOGLE_API_CLIENT_EMAIL_DEFAULT, GOOGLE_API_PRIVATE_KEY_DEFAULT, GOOGLE_SHEET_ID_DEFAULT } from '../constant';
+import { getConfig } from './config';
 const core = require('@actions/core');
 import _ from 'lodash';
 
-const GOOGLE_SHEET_ID = process.env.GOOGLE_SHEET_ID ?? GOOGLE_SHEET_ID_DEFAULT;
-const GOOGLE_API_CLIENT_EMAIL = process.env.GOOGLE_API_CLIENT_EMAIL ?? GOOGLE_API_CLIENT_EMAIL_DEFAULT;
-const GOOGLE_API_PRIVATE_KEY = process.env.GOOGLE_API_PRIVATE_KEY?.replace(/\\n/gm, '\n') ?? GOOGLE_API_PRIVATE_KEY_DEFAULT;
 
 export const insertDataToSheets = async (data) => {
     const client = new JWT({
-        email: GOOGLE_API_CLIENT_EMAIL,
-        key: GOOGLE_API_PRIVATE_KEY,
+        email: getConfig().google.clientEmail,
+        key: getConfig().google.privateKey,
         scopes: ['https://www.googleapis.com/auth/spreadsheets'],
     });
     // @ts-ignore
@@ -22,7 +19,7 @@ export const insertDataToSheets = async (data) => {
     });
     try {
         const response2 = await sheets.spreadsheets.values.append({
-            spreadsheetId: GOOGLE_SHEET_ID,
+            spreadsheetId: getConfig().google.sheetId,
             range: '工作表1!A1:AD',
             valueInputOption: 'USER_ENTERED',
             requestBody: {
@@ -45,8 +42,8 @@ export const insertDataToSheets = async (data) => {
  */
 export const getLatestSheetsData = async (): Promise<string[]> => {
     const client = new JWT({
-        email: GOOGLE_API_CLIENT_EMAIL,
-        key: GOOGLE_API_PRIVATE_KEY,
+        email: getConfig().google.clientEmail,
+        key: getConfig().google.privateKey,
         scopes: ['https://www.googleapis.com/auth/spreadsheets'],
     });
     // @ts-ignore
@@ -57,7 +54,7 @@ export const getLatestSheetsData = async (): Promise<string[]> => {
 
     try {
         const response2 = await sheets.spreadsheets.values.get({
-            spreadsheetId: GOOGLE_SHEET_ID,
+            spreadsheetId: getConfig().google.sheetId,
             range: '工作表1!A1:AD',
         });
         const sheetsData = _.last(response2.data.values);
@@ -0,0 +1,112 @@
+import { getConfig } from './config';
+import { getErrorStatusCode, updateActivityMetadata } from './garmin_common';
+import { getRecentSyncedLedgerEntries, initSyncLedgerTable, saveSyncLedgerEntry, SyncLedgerEntry } from './sqlite';
+import { GarminClientType, GarminRegion } from './type';
+
+/**
+ * Mirror changes made on the source account to the destination copies
+ * Checks the most recently synced activities of the sync ledger: a source activity that was deleted
+ * gets its copy deleted, a renamed or re-described one gets its copy updated.
+ * Opt-in, and the number of deletions per run is capped so a broken source listing can not wipe the destination.
+ */
+
+export interface MirrorOptions {
+    // overrides GARMIN_MIRROR_CHANGES
+    enabled?: boolean;
+    dryRun?: boolean;
+}
+
+export interface MirrorSummary {
+    checked: number;
+    updated: number;
+    deleted: number;
+    // source deletions not mirrored because GARMIN_MIRROR_MAX_DELETIONS was reached
+    skippedDeletions: number;
+}
+
+export const isMirrorEnabled = (options: MirrorOptions = {}): boolean => options.enabled ?? getConfig().garmin.mirrorChanges;
+
+/**
+ * Activity details, or undefined if the activity no longer exists
+ * @throws the request error for anything but 404
+ */
+const getActivityIfExists = async (client: GarminClientType, activityId: string): Promise<Record<string, any> | undefined> => {
+    try {
+        return await client.getActivity({ activityId });
+    } catch (error) {
+        if (getErrorStatusCode(error) === 404) {
+            return undefined;
+        }
+        throw error;
+    }
+};
+
+const markDeleted = async (entry: SyncLedgerEntry): Promise<void> => {
+    await saveSyncLedgerEntry({ ...entry, status: 'DELETED' });
+};
+
+/**
+ * @param options enabled / dryRun, see MirrorOptions
+ */
+export const mirrorSourceChanges = async (
+    sourceClient: GarminClientType,
+    destClient: GarminClientType,
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    options: MirrorOptions = {},
+): Promise<MirrorSummary> => {
+    const summary: MirrorSummary = { checked: 0, updated: 0, deleted: 0, skippedDeletions: 0 };
+    if (!isMirrorEnabled(options)) {
+        return summary;
+    }
+    const { mirrorNum, mirrorMaxDeletions } = getConfig().garmin;
+    await initSyncLedgerTable();
+    const entries = await getRecentSyncedLedgerEntries(sourceRegion, destRegion, mirrorNum);
+    const prefix = `Mirror ${sourceRegion} -> ${destRegion}${options.dryRun ? ' (dry run)' : ''}`;
+    console.log(`${prefix}: checking ${entries.length} recently synced activities`);
+
+    for (const entry of entries) {
+        const destActivityId = entry.destActivityId!;
+        try {
+            summary.checked++;
+            const dest = await getActivityIfExists(destClient, destActivityId);
+            if (!dest) {
+                console.log(`${prefix}: copy ${destActivityId} of ${entry.sourceActivityId} no longer exists, stop mirroring it`);
+                if (!options.dryRun) {
+                    await markDeleted(entry);
+                }
+                continue;
+            }
+            const source = await getActivityIfExists(sourceClient, entry.sourceActivityId);
+            if (!source) {
+                if (summary.deleted >= mirrorMaxDeletions) {
+                    summary.skippedDeletions++;
+                    console.log(`${prefix}: ${entry.sourceActivityId} was deleted, but GARMIN_MIRROR_MAX_DELETIONS (${mirrorMaxDeletions}) is reached, keeping ${destActivityId} 【 ${dest.activityName} 】`);
+                    continue;
+                }
+                console.log(`${prefix}: ${entry.sourceActivityId} was deleted, deleting ${destActivityId} 【 ${dest.activityName} 】`);
+                if (!options.dryRun) {
+                    await destClient.deleteActivity({ activityId: destActivityId });
+                    await markDeleted(entry);
+                }
+                summary.deleted++;
+                continue;
+            }
+            if (source.activityName !== dest.activityName || (source.description ?? '') !== (dest.description ?? '')) {
+                console.log(`${prefix}: updating ${destActivityId} 【 ${dest.activityName} 】 -> 【 ${source.activityName} 】`);
+                if (!options.dryRun) {
+                    await updateActivityMetadata(destActivityId, source, destClient);
+                }
+                summary.updated++;
+            }
+        } catch (error: any) {
+            console.error(`${prefix}: failed to check ${entry.sourceActivityId} (status: ${getErrorStatusCode(error) || 'N/A'}): ${error?.message ?? error}`);
+        }
+    }
+
+    console.log(`${prefix}: checked ${summary.checked}, updated ${summary.updated}, deleted ${summary.deleted}`);
+    if (summary.skippedDeletions > 0) {
+        console.log(`${prefix}: ${summary.skippedDeletions} deletions skipped, raise GARMIN_MIRROR_MAX_DELETIONS or delete them manually`);
+    }
+    return summary;
+};
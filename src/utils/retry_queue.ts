@@ -0,0 +1,152 @@
+import {
+    copyActivityMetadata,
+    createDuplicateChecker,
+    downloadGarminActivity,
+    getActivityFingerprint,
+    isFatalUploadStatus,
+    isUploadSucceeded,
+    recordSyncDuplicate,
+    recordSyncResult,
+    uploadGarminActivity,
+    UploadResult,
+} from './garmin_common';
+import {
+    deleteRetryQueueEntry,
+    getDueRetryQueueEntries,
+    getRetryQueueEntries,
+    getRetryQueueEntry,
+    initRetryQueueTable,
+    initSyncLedgerTable,
+    RetryQueueEntry,
+    saveRetryQueueEntry,
+} from './sqlite';
+import { getConfig } from './config';
+import { addSyncPlanItem, SyncPlan } from './sync_plan';
+import { addSyncReportItem, SyncReport } from './sync_report';
+import { GarminClientType, GarminRegion } from './type';
+import _ from 'lodash';
+
+/**
+ * Retry queue (dead letter) of failed transfers
+ * A transfer that fails is queued with its error and retried at the start of later runs with exponential backoff.
+ * After GARMIN_RETRY_MAX_ATTEMPTS failures it is left in the queue as stuck until purged.
+ */
+
+// activity summary fields kept in the queue, enough for duplicate checks and logs
+const QUEUED_ACTIVITY_FIELDS = ['activityId', 'activityName', 'startTimeLocal', 'startTimeGMT', 'duration', 'distance', 'activityType'];
+
+export const getRetryMaxAttempts = (): number => getConfig().garmin.retryMaxAttempts;
+
+export const isRetryEntryStuck = (entry: RetryQueueEntry): boolean => entry.attempts >= getRetryMaxAttempts();
+
+/**
+ * Delay in seconds before the next attempt after the given number of failed attempts
+ */
+export const getRetryDelay = (attempts: number): number => getConfig().garmin.retryDelay * Math.pow(2, Math.max(attempts - 1, 0));
+
+/**
+ * Queue a failed transfer, or count one more failed attempt of a queued one
+ * Failures that stopped the whole run (auth failed, rate limited) are rescheduled without using up an attempt.
+ * @param upload upload result, undefined when the download failed
+ * @param error the download error
+ */
+export const enqueueRetry = async (
+    act: Record<string, any>,
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    upload: UploadResult | undefined,
+    error?: any,
+): Promise<void> => {
+    await initRetryQueueTable();
+    const queued = await getRetryQueueEntry(sourceRegion, destRegion, String(act.activityId));
+    const previousAttempts = queued?.attempts ?? 0;
+    const attempts = upload && isFatalUploadStatus(upload.status) ? Math.max(previousAttempts, 1) : previousAttempts + 1;
+    const lastError = upload ? `${upload.status}: ${upload.message ?? ''}` : `DOWNLOAD_FAILED: ${error?.message ?? error ?? ''}`;
+    const delay = getRetryDelay(attempts);
+    await saveRetryQueueEntry(sourceRegion, destRegion, _.pick(act, QUEUED_ACTIVITY_FIELDS), lastError, attempts, delay);
+    if (attempts >= getRetryMaxAttempts()) {
+        console.log(`Retry queue: ${act.activityId} failed ${attempts} times, no more automatic retries`);
+    } else {
+        console.log(`Retry queue: ${act.activityId} failed ${attempts} times, next attempt in ${delay}s`);
+    }
+};
+
+/**
+ * Ids of source activities queued for one direction, the regular sync leaves them to the queue
+ */
+export const getQueuedActivityIds = async (sourceRegion: GarminRegion, destRegion: GarminRegion): Promise<Set<string>> => {
+    await initRetryQueueTable();
+    const entries = await getRetryQueueEntries(sourceRegion, destRegion);
+    return new Set(entries.map(e => e.sourceActivityId));
+};
+
+/**
+ * Add the queued transfers due for a retry to a dry run plan
+ */
+export const planRetryQueue = async (plan: SyncPlan): Promise<void> => {
+    await initRetryQueueTable();
+    const entries = await getDueRetryQueueEntries(plan.sourceRegion, plan.destRegion, getRetryMaxAttempts());
+    for (const entry of entries) {
+        addSyncPlanItem(plan, 'RETRY', entry.activity, { attempts: entry.attempts, lastError: entry.lastError });
+    }
+};
+
+/**
+ * Retry the queued transfers that are due, before the regular sync of a run
+ * Succeeded and already present activities leave the queue and are recorded in the sync ledger,
+ * failed ones are rescheduled.
+ * @returns stopped: a failure that also stops the regular sync (auth failed, rate limited)
+ */
+export const drainRetryQueue = async (
+    sourceClient: GarminClientType,
+    destClient: GarminClientType,
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    report: SyncReport,
+): Promise<{ stopped: boolean }> => {
+    await initRetryQueueTable();
+    const entries = await getDueRetryQueueEntries(sourceRegion, destRegion, getRetryMaxAttempts());
+    if (entries.length === 0) {
+        return { stopped: false };
+    }
+    console.log(`Retry queue: retrying ${entries.length} failed transfers ${sourceRegion} -> ${destRegion}`);
+    await initSyncLedgerTable();
+
+    const duplicateChecker = createDuplicateChecker(destClient);
+    for (const entry of _.sortBy(entries, e => -getActivityFingerprint(e.activity).startTime)) {
+        const act = entry.activity;
+        const existing = await duplicateChecker.find(act);
+        if (existing) {
+            console.log(`Retry queue: ${act.activityId} 【 ${act.activityName} 】 already present as ${existing.activityId}`);
+            await recordSyncDuplicate({ act, existing }, sourceRegion, destRegion);
+            addSyncReportItem(report, act, { status: 'DUPLICATE', activityId: String(existing.activityId) });
+            await deleteRetryQueueEntry(entry.id);
+            continue;
+        }
+
+        let upload: UploadResult | undefined;
+        let error;
+        try {
+            const filePath = await downloadGarminActivity(act.activityId, sourceClient);
+            console.log(`Retry queue: attempt ${entry.attempts + 1} of 【 ${act.activityName} 】，开始于 【 ${act.startTimeLocal} 】，活动ID: 【 ${act.activityId} 】`);
+            upload = await uploadGarminActivity(filePath, destClient);
+            await copyActivityMetadata(act.activityId, sourceClient, upload, destClient);
+        } catch (e) {
+            error = e;
+            console.log(`Retry queue: download of ${act.activityId} failed`, e);
+        }
+        addSyncReportItem(report, act, upload, error);
+        await recordSyncResult(act.activityId, sourceRegion, destRegion, upload);
+        if (isUploadSucceeded(upload)) {
+            await deleteRetryQueueEntry(entry.id);
+        } else {
+            await enqueueRetry(act, sourceRegion, destRegion, upload, error);
+        }
+        if (upload && isFatalUploadStatus(upload.status)) {
+            console.log(`Retry queue: upload failed (${upload.status}), stopping this run`);
+            return { stopped: true };
+        }
+        await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+    return { stopped: false };
+};
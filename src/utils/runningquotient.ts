@@ -1,21 +1,12 @@
-import {
-    RQ_COOKIE_DEFAULT,
-    RQ_CSRF_TOKEN_DEFAULT,
-    RQ_HOST_DEFAULT,
-    RQ_ROUTES_DEFAULT,
-    RQ_USERID_DEFAULT,
-} from '../constant';
+import { RQ_HOST_DEFAULT, RQ_ROUTES_DEFAULT } from '../constant';
 import axios from 'axios';
 import { getGaminCNClient } from './garmin_cn';
 import { getGarminStatistics } from './garmin_common';
 import { getLatestActivityIdInSheets, insertDataToSheets } from './google_sheets';
+import { getConfig } from './config';
 import _ from 'lodash';
 const core = require('@actions/core');
 
-const RQ_USERID = process.env.RQ_USERID ?? RQ_USERID_DEFAULT;
-const RQ_COOKIE = process.env.RQ_COOKIE ?? RQ_COOKIE_DEFAULT;
-const RQ_CSRF_TOKEN = process.env.RQ_CSRF_TOKEN ?? RQ_CSRF_TOKEN_DEFAULT;
-
 export const doRQGoogleSheets = async () => {
     const rqResult = await getRQOverView();
     const clientCN = await getGaminCNClient();
@@ -33,7 +24,8 @@ export const doRQGoogleSheets = async () => {
 };
 
 export async function getRQOverView() {
-    const url = `${RQ_HOST_DEFAULT}${RQ_ROUTES_DEFAULT.UPDATE}${RQ_USERID}`;
+    const { userId, cookie, csrfToken } = getConfig().rq;
+    const url = `${RQ_HOST_DEFAULT}${RQ_ROUTES_DEFAULT.UPDATE}${userId}`;
 
     console.log('url', url);
     try {
@@ -48,9 +40,9 @@ export async function getRQOverView() {
                 'sec-fetch-dest': 'empty',
                 'sec-fetch-mode': 'cors',
                 'sec-fetch-site': 'same-origin',
-                'x-csrf-token': RQ_CSRF_TOKEN,
+                'x-csrf-token': csrfToken,
                 'x-requested-with': 'XMLHttpRequest',
-                'cookie': RQ_COOKIE,
+                'cookie': cookie,
                 'Referer': 'https://www.runningquotient.cn/training/overview',
                 'Referrer-Policy': 'strict-origin-when-cross-origin',
             },
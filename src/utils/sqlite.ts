@@ -1,11 +1,10 @@
-import { AESKEY_DEFAULT, DB_FILE_PATH, DOWNLOAD_DIR, GARMIN_USERNAME_DEFAULT } from '../constant';
+import { AESKEY_DEFAULT, DAILYSYNC_PROFILE_DEFAULT, DB_FILE_PATH, DOWNLOAD_DIR } from '../constant';
 import sqlite3 from 'sqlite3';
 import { Database, open } from 'sqlite';
+import { GarminRegion, SyncService } from './type';
+import { getConfig } from './config';
+import { decryptText, DecryptionError, encryptText } from './crypto';
 
-const CryptoJS = require('crypto-js');
-
-const GARMIN_USERNAME = process.env.GARMIN_USERNAME ?? GARMIN_USERNAME_DEFAULT;
-const AESKEY = process.env.AESKEY ?? AESKEY_DEFAULT;
 
 export const initDB = async () => {
     const db = await getDB();
@@ -13,8 +12,17 @@ export const initDB = async () => {
             id INTEGER PRIMARY KEY AUTOINCREMENT,
             user VARCHAR(20),
             region VARCHAR(20),
-            session  TEXT
+            session  TEXT,
+            profile VARCHAR(50) NOT NULL DEFAULT '${DAILYSYNC_PROFILE_DEFAULT}',
+            updated_at DATETIME,
+            validated_at DATETIME
         )`);
+    await addProfileColumn(db, 'garmin_session');
+    for (const column of ['updated_at', 'validated_at']) {
+        if (!(await columnExists(db, 'garmin_session', column))) {
+            await db.exec(`ALTER TABLE garmin_session ADD COLUMN ${column} DATETIME`);
+        }
+    }
 };
 
 export const getDB = async () => {
@@ -24,48 +32,158 @@ export const getDB = async () => {
     });
 };
 
-export const saveSessionToDB = async (type: 'CN' | 'GLOBAL', session: Record<string, any>) => {
+/**
+ * Account a session belongs to: the username of that region in the current profile
+ */
+const getSessionUser = (type: GarminRegion): string => {
+    const { cn, global } = getConfig().garmin;
+    return type === 'CN' ? cn.username : global.username;
+};
+
+/**
+ * Save the session of the current profile, replacing the saved one
+ * Rows are keyed on profile, user and region, so saving never adds a duplicate.
+ */
+export const saveSessionToDB = async (type: GarminRegion, session: Record<string, any>) => {
     const db = await getDB();
     const encryptedSessionStr = encryptSession(session);
-    await db.run(
-        `INSERT INTO garmin_session (user,region,session) VALUES (?,?,?)`,
-        GARMIN_USERNAME, type, encryptedSessionStr,
+    const user = getSessionUser(type);
+    const { profile } = getConfig();
+    const result = await db.run(
+        `UPDATE garmin_session SET session = ?, updated_at = datetime('now') WHERE user = ? AND region = ? AND profile = ?`,
+        encryptedSessionStr, user, type, profile,
     );
+    if (!result.changes) {
+        await db.run(
+            `INSERT INTO garmin_session (user,region,session,profile,updated_at) VALUES (?,?,?,?,datetime('now'))`,
+            user, type, encryptedSessionStr, profile,
+        );
+    }
 };
 
-export const updateSessionToDB = async (type: 'CN' | 'GLOBAL', session: Record<string, any>) => {
+/**
+ * Record that the saved session of the current profile was just used successfully
+ */
+export const markSessionValidated = async (type: GarminRegion) => {
     const db = await getDB();
-    const encryptedSessionStr = encryptSession(session);
     await db.run(
-        'UPDATE garmin_session SET session = ? WHERE user = ? AND region = ?',
-        encryptedSessionStr,
-        GARMIN_USERNAME,
-        type,
+        `UPDATE garmin_session SET validated_at = datetime('now') WHERE user = ? AND region = ? AND profile = ?`,
+        getSessionUser(type), type, getConfig().profile,
+    );
+};
+
+/**
+ * Sessions saved before profiles existed keyed the Global session on the CN username,
+ * move such a session to the Global username so it keeps being used
+ */
+const adoptLegacyGlobalSession = async (db: Database): Promise<void> => {
+    const { profile, garmin } = getConfig();
+    if (profile !== DAILYSYNC_PROFILE_DEFAULT || garmin.cn.username === garmin.global.username) {
+        return;
+    }
+    await db.run(
+        `UPDATE garmin_session SET user = ? WHERE user = ? AND region = 'GLOBAL' AND profile = ?
+            AND NOT EXISTS (SELECT 1 FROM garmin_session WHERE user = ? AND region = 'GLOBAL' AND profile = ?)`,
+        garmin.global.username, garmin.cn.username, profile, garmin.global.username, profile,
     );
 };
 
-export const getSessionFromDB = async (type: 'CN' | 'GLOBAL'): Promise<Record<string, any> | undefined> => {
+/**
+ * Saved session of the current profile, the newest one if there are duplicates
+ * @returns undefined if there is none, or it can not be decrypted
+ */
+export const getSessionFromDB = async (type: GarminRegion): Promise<Record<string, any> | undefined> => {
     const db = await getDB();
+    if (type === 'GLOBAL') {
+        await adoptLegacyGlobalSession(db);
+    }
     const queryResult = await db.get(
-        'SELECT session FROM garmin_session WHERE user = ? AND region = ? ',
-        GARMIN_USERNAME, type,
+        'SELECT session FROM garmin_session WHERE user = ? AND region = ? AND profile = ? ORDER BY id DESC LIMIT 1',
+        getSessionUser(type), type, getConfig().profile,
     );
     if (!queryResult) {
         return undefined;
     }
     const encryptedSessionStr = queryResult?.session;
-    // return {}
-    return decryptSession(encryptedSessionStr);
+    try {
+        return decryptSession(encryptedSessionStr);
+    } catch (e: any) {
+        // the caller logs in with the password and overwrites the session with the current key
+        console.log(`Warn: saved ${type} session can not be decrypted (${e?.message ?? e}), logging in again. Check AESKEY if this happens on every run.`);
+        return undefined;
+    }
+};
+
+export interface SessionRecord {
+    id: number;
+    profile: string;
+    user: string;
+    region: GarminRegion;
+    // encrypted session
+    session: string;
+    updatedAt?: string;
+    validatedAt?: string;
+}
+
+/**
+ * List saved sessions of every profile and user, without decrypting them
+ */
+export const getSessionsFromDB = async (): Promise<SessionRecord[]> => {
+    const db = await getDB();
+    const results = await db.all('SELECT * FROM garmin_session ORDER BY profile, region, user, id');
+    return results.map((r: any) => ({
+        id: r.id,
+        profile: r.profile,
+        user: r.user,
+        region: r.region,
+        session: r.session,
+        updatedAt: r.updated_at ?? undefined,
+        validatedAt: r.validated_at ?? undefined,
+    }));
+};
+
+export const deleteSessionFromDB = async (id: number): Promise<void> => {
+    const db = await getDB();
+    await db.run('DELETE FROM garmin_session WHERE id = ?', id);
+};
+
+let defaultKeyWarned = false;
+
+const getSessionKey = (): string => {
+    const { aesKey } = getConfig();
+    if (aesKey === AESKEY_DEFAULT && !defaultKeyWarned) {
+        defaultKeyWarned = true;
+        console.log('Warn: AESKEY is not set, sessions are encrypted with the built-in default key');
+    }
+    return aesKey;
+};
+
+/**
+ * @param key defaults to the configured AESKEY
+ */
+export const encryptSession = (session: Record<string, any>, key = getSessionKey()): string => {
+    return encryptText(JSON.stringify(session), key);
 };
 
-export const encryptSession = (session: Record<string, any>): string => {
-    const sessionStr = JSON.stringify(session);
-    return CryptoJS.AES.encrypt(sessionStr, AESKEY).toString();
+/**
+ * @param key defaults to the configured AESKEY
+ * @throws DecryptionError if the key is wrong or the session is corrupt
+ */
+export const decryptSession = (sessionStr: string, key = getSessionKey()): Record<string, any> => {
+    const session = decryptText(sessionStr, key);
+    try {
+        return JSON.parse(session);
+    } catch (e) {
+        throw new DecryptionError('decrypted session is not valid JSON');
+    }
 };
-export const decryptSession = (sessionStr: string): Record<string, any> => {
-    const bytes = CryptoJS.AES.decrypt(sessionStr, AESKEY);
-    const session = bytes.toString(CryptoJS.enc.Utf8);
-    return JSON.parse(session);
+
+/**
+ * Replace the stored ciphertext of a session, e.g. after re-encrypting it with a new key
+ */
+export const updateSessionCiphertext = async (id: number, encryptedSession: string): Promise<void> => {
+    const db = await getDB();
+    await db.run('UPDATE garmin_session SET session = ? WHERE id = ?', encryptedSession, id);
 };
 
 /**
@@ -80,9 +198,42 @@ const columnExists = async (db: any, tableName: string, columnName: string): Pro
     return result.some((col: { name: string }) => col.name === columnName);
 };
 
+/**
+ * Rows written before profiles existed belong to the default profile
+ */
+const addProfileColumn = async (db: any, tableName: string): Promise<void> => {
+    if (!(await columnExists(db, tableName, 'profile'))) {
+        await db.exec(`ALTER TABLE ${tableName} ADD COLUMN profile VARCHAR(50) NOT NULL DEFAULT '${DAILYSYNC_PROFILE_DEFAULT}'`);
+    }
+};
+
+const currentProfile = (): string => getConfig().profile;
+
+/**
+ * Rebuild a table whose unique key was created without the profile, keeping its rows
+ * SQLite can not change a constraint in place, so the table is renamed, created again by createTable and copied back.
+ * @param columns columns copied to the new table
+ */
+const rebuildWithProfileKey = async (db: any, tableName: string, columns: string, createTable: () => Promise<void>): Promise<void> => {
+    const table = await db.get("SELECT sql FROM sqlite_master WHERE type='table' AND name = ?", tableName);
+    const rebuild = table && !/UNIQUE\s*\(\s*profile\b/.test(table.sql);
+    if (rebuild) {
+        await addProfileColumn(db, tableName);
+        await db.exec(`ALTER TABLE ${tableName} RENAME TO ${tableName}_old`);
+    }
+    await createTable();
+    if (rebuild) {
+        await db.exec(`INSERT INTO ${tableName} (${columns}) SELECT ${columns} FROM ${tableName}_old`);
+        await db.exec(`DROP TABLE ${tableName}_old`);
+    }
+};
+
+const AI_INSIGHTS_COLUMNS = 'id, activity_id, activity_name, insight, model, confidence, created_at, profile';
+
 /**
  * Initialize AI Insights table with migration support
  * Handles schema evolution by adding missing columns to existing tables
+ * Each activity has at most one insight per profile
  */
 export const initAIInsightsTable = async () => {
     const db = await getDB();
@@ -92,19 +243,7 @@ export const initAIInsightsTable = async () => {
         "SELECT name FROM sqlite_master WHERE type='table' AND name='ai_insights'"
     );
     
-    if (!tableExists) {
-        // Create new table with full schema
-        await db.exec(`CREATE TABLE ai_insights (
-            id INTEGER PRIMARY KEY AUTOINCREMENT,
-            activity_id VARCHAR(50) UNIQUE,
-            activity_name TEXT,
-            insight TEXT,
-            model VARCHAR(50),
-            confidence REAL,
-            created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-        )`);
-        console.log('AI Insights: Created new ai_insights table');
-    } else {
+    if (tableExists) {
         // Migrate existing table - add missing columns
         const migrations: Array<{ column: string; type: string; defaultValue?: string }> = [
             { column: 'model', type: 'VARCHAR(50)', defaultValue: "'unknown'" },
@@ -120,6 +259,20 @@ export const initAIInsightsTable = async () => {
             }
         }
     }
+    await rebuildWithProfileKey(db, 'ai_insights', AI_INSIGHTS_COLUMNS, () => db.exec(`CREATE TABLE IF NOT EXISTS ai_insights (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            activity_id VARCHAR(50),
+            activity_name TEXT,
+            insight TEXT,
+            model VARCHAR(50),
+            confidence REAL,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            profile VARCHAR(50) NOT NULL DEFAULT '${DAILYSYNC_PROFILE_DEFAULT}',
+            UNIQUE (profile, activity_id)
+        )`));
+    if (!tableExists) {
+        console.log('AI Insights: Created new ai_insights table');
+    }
 };
 
 export interface AIInsightData {
@@ -133,20 +286,25 @@ export interface AIInsightData {
 export const saveAIInsight = async (data: AIInsightData): Promise<void> => {
     const db = await getDB();
     await db.run(
-        `INSERT OR REPLACE INTO ai_insights (activity_id, activity_name, insight, model, confidence, created_at) VALUES (?, ?, ?, ?, ?, datetime('now'))`,
-        data.activityId, data.activityName, data.insight, data.model, data.confidence,
+        `INSERT OR REPLACE INTO ai_insights (activity_id, activity_name, insight, model, confidence, created_at, profile) VALUES (?, ?, ?, ?, ?, datetime('now'), ?)`,
+        data.activityId, data.activityName, data.insight, data.model, data.confidence, currentProfile(),
     );
 };
 
 export const getAIInsight = async (activityId: string): Promise<string | undefined> => {
     const db = await getDB();
     const result = await db.get(
-        'SELECT insight FROM ai_insights WHERE activity_id = ?',
-        activityId,
+        'SELECT insight FROM ai_insights WHERE profile = ? AND activity_id = ?',
+        currentProfile(), activityId,
     );
     return result?.insight;
 };
 
+export const deleteAIInsight = async (activityId: string): Promise<void> => {
+    const db = await getDB();
+    await db.run('DELETE FROM ai_insights WHERE profile = ? AND activity_id = ?', currentProfile(), activityId);
+};
+
 export const hasAIInsight = async (activityId: string): Promise<boolean> => {
     const insight = await getAIInsight(activityId);
     return insight !== undefined;
@@ -157,8 +315,8 @@ export const getActivitiesWithoutInsights = async (activityIds: string[]): Promi
     const db = await getDB();
     const placeholders = activityIds.map(() => '?').join(',');
     const results = await db.all(
-        `SELECT activity_id FROM ai_insights WHERE activity_id IN (${placeholders})`,
-        ...activityIds,
+        `SELECT activity_id FROM ai_insights WHERE profile = ? AND activity_id IN (${placeholders})`,
+        currentProfile(), ...activityIds,
     );
     const existingIds = new Set(results.map((r: { activity_id: string }) => r.activity_id));
     return activityIds.filter(id => !existingIds.has(id));
@@ -170,12 +328,13 @@ export interface AIInsightRecord extends AIInsightData {
 }
 
 /**
- * Get all AI insights from the database
+ * Get all AI insights of the current profile from the database
  */
 export const getAllAIInsights = async (): Promise<AIInsightRecord[]> => {
     const db = await getDB();
     const results = await db.all(
-        'SELECT id, activity_id, activity_name, insight, model, confidence, created_at FROM ai_insights ORDER BY id DESC'
+        'SELECT id, activity_id, activity_name, insight, model, confidence, created_at FROM ai_insights WHERE profile = ? ORDER BY id DESC',
+        currentProfile(),
     );
     return results.map((r: any) => ({
         id: r.id,
@@ -187,3 +346,766 @@ export const getAllAIInsights = async (): Promise<AIInsightRecord[]> => {
         createdAt: r.created_at,
     }));
 };
+
+/**
+ * Sync Ledger Table Functions
+ */
+
+/**
+ * SYNCED:    uploaded to the destination region (or Strava) by this tool, the only copies that are mirrored
+ * DUPLICATE: the destination already had the activity, dest_activity_id is the user's own recording there
+ * FAILED:    download or upload failed, will be retried on the next sync
+ * BASELINE:  already present on the destination before the ledger existed
+ * DELETED:   the source or the destination copy was deleted, no longer mirrored
+ */
+export type SyncLedgerStatus = 'SYNCED' | 'DUPLICATE' | 'FAILED' | 'BASELINE' | 'DELETED';
+
+export interface SyncLedgerEntry {
+    sourceRegion: SyncService;
+    sourceActivityId: string;
+    destRegion: SyncService;
+    destActivityId?: string;
+    status: SyncLedgerStatus;
+    updatedAt?: string;
+}
+
+const SYNC_LEDGER_COLUMNS = 'id, source_region, source_activity_id, dest_region, dest_activity_id, status, updated_at, profile';
+
+/**
+ * Initialize sync ledger table
+ * Each source activity has at most one row per destination region and profile
+ */
+export const initSyncLedgerTable = async () => {
+    const db = await getDB();
+    await rebuildWithProfileKey(db, 'sync_ledger', SYNC_LEDGER_COLUMNS, () => db.exec(`CREATE TABLE IF NOT EXISTS sync_ledger (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            source_region VARCHAR(20),
+            source_activity_id VARCHAR(50),
+            dest_region VARCHAR(20),
+            dest_activity_id VARCHAR(50),
+            status VARCHAR(20),
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            profile VARCHAR(50) NOT NULL DEFAULT '${DAILYSYNC_PROFILE_DEFAULT}',
+            UNIQUE (profile, source_region, source_activity_id, dest_region)
+        )`));
+};
+
+export const saveSyncLedgerEntry = async (entry: SyncLedgerEntry): Promise<void> => {
+    const db = await getDB();
+    await db.run(
+        `INSERT OR REPLACE INTO sync_ledger (source_region, source_activity_id, dest_region, dest_activity_id, status, updated_at, profile) VALUES (?, ?, ?, ?, ?, datetime('now'), ?)`,
+        entry.sourceRegion, entry.sourceActivityId, entry.destRegion, entry.destActivityId ?? null, entry.status, currentProfile(),
+    );
+};
+
+const toSyncLedgerEntry = (r: any): SyncLedgerEntry => ({
+    sourceRegion: r.source_region,
+    sourceActivityId: r.source_activity_id,
+    destRegion: r.dest_region,
+    destActivityId: r.dest_activity_id ?? undefined,
+    status: r.status,
+    updatedAt: r.updated_at,
+});
+
+/**
+ * Get ledger entries of the given source activities for one sync direction
+ */
+export const getSyncLedgerEntries = async (
+    sourceRegion: SyncService,
+    destRegion: SyncService,
+    sourceActivityIds: string[],
+): Promise<SyncLedgerEntry[]> => {
+    if (sourceActivityIds.length === 0) return [];
+    const db = await getDB();
+    const placeholders = sourceActivityIds.map(() => '?').join(',');
+    const results = await db.all(
+        `SELECT source_region, source_activity_id, dest_region, dest_activity_id, status, updated_at FROM sync_ledger WHERE profile = ? AND source_region = ? AND dest_region = ? AND source_activity_id IN (${placeholders})`,
+        currentProfile(), sourceRegion, destRegion, ...sourceActivityIds,
+    );
+    return results.map(toSyncLedgerEntry);
+};
+
+/**
+ * Get ledger entries whose destination copy is one of the given activities
+ * Used to tell activities uploaded by this tool apart from activities recorded on that account
+ */
+export const getSyncLedgerEntriesByDest = async (
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    destActivityIds: string[],
+): Promise<SyncLedgerEntry[]> => {
+    if (destActivityIds.length === 0) return [];
+    const db = await getDB();
+    const placeholders = destActivityIds.map(() => '?').join(',');
+    const results = await db.all(
+        `SELECT source_region, source_activity_id, dest_region, dest_activity_id, status, updated_at FROM sync_ledger WHERE profile = ? AND source_region = ? AND dest_region = ? AND dest_activity_id IN (${placeholders})`,
+        currentProfile(), sourceRegion, destRegion, ...destActivityIds,
+    );
+    return results.map(toSyncLedgerEntry);
+};
+
+/**
+ * Get the most recently synced entries of one direction that have a known destination copy
+ * Only copies this tool uploaded (SYNCED), matched duplicates are the user's own activities and never mirrored
+ */
+export const getRecentSyncedLedgerEntries = async (
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    limit: number,
+): Promise<SyncLedgerEntry[]> => {
+    const db = await getDB();
+    const results = await db.all(
+        `SELECT source_region, source_activity_id, dest_region, dest_activity_id, status, updated_at FROM sync_ledger WHERE profile = ? AND source_region = ? AND dest_region = ? AND status = 'SYNCED' AND dest_activity_id IS NOT NULL ORDER BY updated_at DESC, id DESC LIMIT ?`,
+        currentProfile(), sourceRegion, destRegion, limit,
+    );
+    return results.map(toSyncLedgerEntry);
+};
+
+export const countSyncLedgerEntries = async (sourceRegion: GarminRegion, destRegion: GarminRegion): Promise<number> => {
+    const db = await getDB();
+    const result = await db.get(
+        'SELECT COUNT(*) AS total FROM sync_ledger WHERE profile = ? AND source_region = ? AND dest_region = ?',
+        currentProfile(), sourceRegion, destRegion,
+    );
+    return result?.total ?? 0;
+};
+
+/**
+ * Migrate Checkpoint Table Functions
+ */
+
+export interface MigrateCheckpoint {
+    sourceRegion: GarminRegion;
+    destRegion: GarminRegion;
+    startIndex: number;
+    total: number;
+    sinceDate?: string;
+    untilDate?: string;
+    nextIndex: number;
+    lastActivityId?: string;
+    lastStartTime?: string;
+    status: 'RUNNING' | 'COMPLETED';
+    updatedAt?: string;
+}
+
+const MIGRATE_CHECKPOINT_COLUMNS = 'source_region, dest_region, start_index, total, since_date, until_date, next_index, last_activity_id, last_start_time, status, updated_at';
+
+/**
+ * Initialize migrate checkpoint table
+ * Only the latest migration run of each direction and profile is kept
+ */
+export const initMigrateCheckpointTable = async () => {
+    const db = await getDB();
+    const tableExists = await db.get("SELECT name FROM sqlite_master WHERE type='table' AND name='migrate_checkpoint'");
+    if (tableExists && !(await columnExists(db, 'migrate_checkpoint', 'profile'))) {
+        // the unique key gains the profile, which needs a new table
+        for (const column of ['since_date', 'until_date']) {
+            if (!(await columnExists(db, 'migrate_checkpoint', column))) {
+                await db.exec(`ALTER TABLE migrate_checkpoint ADD COLUMN ${column} VARCHAR(10)`);
+            }
+        }
+        await db.exec('ALTER TABLE migrate_checkpoint RENAME TO migrate_checkpoint_old');
+    }
+    await db.exec(`CREATE TABLE IF NOT EXISTS migrate_checkpoint (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            source_region VARCHAR(20),
+            dest_region VARCHAR(20),
+            start_index INTEGER,
+            total INTEGER,
+            since_date VARCHAR(10),
+            until_date VARCHAR(10),
+            next_index INTEGER,
+            last_activity_id VARCHAR(50),
+            last_start_time VARCHAR(30),
+            status VARCHAR(20),
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            profile VARCHAR(50) NOT NULL DEFAULT '${DAILYSYNC_PROFILE_DEFAULT}',
+            UNIQUE (profile, source_region, dest_region)
+        )`);
+    if (tableExists && await db.get("SELECT name FROM sqlite_master WHERE type='table' AND name='migrate_checkpoint_old'")) {
+        await db.exec(`INSERT INTO migrate_checkpoint (${MIGRATE_CHECKPOINT_COLUMNS}) SELECT ${MIGRATE_CHECKPOINT_COLUMNS} FROM migrate_checkpoint_old`);
+        await db.exec('DROP TABLE migrate_checkpoint_old');
+    }
+};
+
+export const getMigrateCheckpoint = async (
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+): Promise<MigrateCheckpoint | undefined> => {
+    const db = await getDB();
+    const r = await db.get(
+        'SELECT * FROM migrate_checkpoint WHERE profile = ? AND source_region = ? AND dest_region = ?',
+        currentProfile(), sourceRegion, destRegion,
+    );
+    if (!r) {
+        return undefined;
+    }
+    return {
+        sourceRegion: r.source_region,
+        destRegion: r.dest_region,
+        startIndex: r.start_index,
+        total: r.total,
+        sinceDate: r.since_date ?? undefined,
+        untilDate: r.until_date ?? undefined,
+        nextIndex: r.next_index,
+        lastActivityId: r.last_activity_id ?? undefined,
+        lastStartTime: r.last_start_time ?? undefined,
+        status: r.status,
+        updatedAt: r.updated_at,
+    };
+};
+
+export const saveMigrateCheckpoint = async (checkpoint: MigrateCheckpoint): Promise<void> => {
+    const db = await getDB();
+    await db.run(
+        `INSERT OR REPLACE INTO migrate_checkpoint (${MIGRATE_CHECKPOINT_COLUMNS}, profile) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), ?)`,
+        checkpoint.sourceRegion, checkpoint.destRegion, checkpoint.startIndex, checkpoint.total,
+        checkpoint.sinceDate ?? null, checkpoint.untilDate ?? null, checkpoint.nextIndex,
+        checkpoint.lastActivityId ?? null, checkpoint.lastStartTime ?? null, checkpoint.status, currentProfile(),
+    );
+};
+
+export const deleteMigrateCheckpoint = async (sourceRegion: GarminRegion, destRegion: GarminRegion): Promise<void> => {
+    const db = await getDB();
+    await db.run('DELETE FROM migrate_checkpoint WHERE profile = ? AND source_region = ? AND dest_region = ?', currentProfile(), sourceRegion, destRegion);
+};
+
+/**
+ * Retry Queue Table Functions
+ */
+
+export interface RetryQueueEntry {
+    id: number;
+    sourceRegion: GarminRegion;
+    sourceActivityId: string;
+    destRegion: GarminRegion;
+    // activity summary from the source activity list, used for duplicate checks and logs
+    activity: Record<string, any>;
+    attempts: number;
+    lastError?: string;
+    nextAttemptAt: string;
+    createdAt: string;
+}
+
+const RETRY_QUEUE_COLUMNS = 'id, source_region, source_activity_id, dest_region, activity, attempts, last_error, next_attempt_at, created_at, profile';
+
+/**
+ * Initialize retry queue table for failed transfers
+ * Each source activity has at most one row per destination region and profile
+ */
+export const initRetryQueueTable = async () => {
+    const db = await getDB();
+    await rebuildWithProfileKey(db, 'retry_queue', RETRY_QUEUE_COLUMNS, () => db.exec(`CREATE TABLE IF NOT EXISTS retry_queue (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            source_region VARCHAR(20),
+            source_activity_id VARCHAR(50),
+            dest_region VARCHAR(20),
+            activity TEXT,
+            attempts INTEGER DEFAULT 0,
+            last_error TEXT,
+            next_attempt_at DATETIME,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            profile VARCHAR(50) NOT NULL DEFAULT '${DAILYSYNC_PROFILE_DEFAULT}',
+            UNIQUE (profile, source_region, source_activity_id, dest_region)
+        )`));
+};
+
+const toRetryQueueEntry = (r: any): RetryQueueEntry => ({
+    id: r.id,
+    sourceRegion: r.source_region,
+    sourceActivityId: r.source_activity_id,
+    destRegion: r.dest_region,
+    activity: JSON.parse(r.activity),
+    attempts: r.attempts,
+    lastError: r.last_error ?? undefined,
+    nextAttemptAt: r.next_attempt_at,
+    createdAt: r.created_at,
+});
+
+/**
+ * Add a failed transfer to the queue, or count one more failed attempt if it is already queued
+ * @param delaySeconds backoff before the next attempt
+ */
+export const saveRetryQueueEntry = async (
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    activity: Record<string, any>,
+    lastError: string,
+    attempts: number,
+    delaySeconds: number,
+): Promise<void> => {
+    const db = await getDB();
+    await db.run(
+        `INSERT INTO retry_queue (source_region, source_activity_id, dest_region, activity, attempts, last_error, next_attempt_at, created_at, profile)
+            VALUES (?, ?, ?, ?, ?, ?, datetime('now', '+' || ? || ' seconds'), datetime('now'), ?)
+            ON CONFLICT (profile, source_region, source_activity_id, dest_region) DO UPDATE SET
+                attempts = excluded.attempts, last_error = excluded.last_error, next_attempt_at = excluded.next_attempt_at`,
+        sourceRegion, String(activity.activityId), destRegion, JSON.stringify(activity), attempts, lastError, delaySeconds, currentProfile(),
+    );
+};
+
+export const getRetryQueueEntry = async (
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    sourceActivityId: string,
+): Promise<RetryQueueEntry | undefined> => {
+    const db = await getDB();
+    const r = await db.get(
+        'SELECT * FROM retry_queue WHERE profile = ? AND source_region = ? AND dest_region = ? AND source_activity_id = ?',
+        currentProfile(), sourceRegion, destRegion, sourceActivityId,
+    );
+    return r ? toRetryQueueEntry(r) : undefined;
+};
+
+/**
+ * Get queued transfers of the current profile for one direction, or for every direction if regions are not given
+ */
+export const getRetryQueueEntries = async (sourceRegion?: GarminRegion, destRegion?: GarminRegion): Promise<RetryQueueEntry[]> => {
+    const db = await getDB();
+    const results = sourceRegion && destRegion
+        ? await db.all('SELECT * FROM retry_queue WHERE profile = ? AND source_region = ? AND dest_region = ? ORDER BY id', currentProfile(), sourceRegion, destRegion)
+        : await db.all('SELECT * FROM retry_queue WHERE profile = ? ORDER BY id', currentProfile());
+    return results.map(toRetryQueueEntry);
+};
+
+/**
+ * Get queued transfers whose next attempt is due and that have not used up their attempts
+ */
+export const getDueRetryQueueEntries = async (
+    sourceRegion: SyncService,
+    destRegion: SyncService,
+    maxAttempts: number,
+): Promise<RetryQueueEntry[]> => {
+    const db = await getDB();
+    const results = await db.all(
+        `SELECT * FROM retry_queue WHERE profile = ? AND source_region = ? AND dest_region = ? AND attempts < ? AND next_attempt_at <= datetime('now') ORDER BY id`,
+        currentProfile(), sourceRegion, destRegion, maxAttempts,
+    );
+    return results.map(toRetryQueueEntry);
+};
+
+export const deleteRetryQueueEntry = async (id: number): Promise<void> => {
+    const db = await getDB();
+    await db.run('DELETE FROM retry_queue WHERE id = ? AND profile = ?', id, currentProfile());
+};
+
+/**
+ * Delete transfers of the current profile that used up their attempts, or every queued transfer of it
+ * @returns number of deleted entries
+ */
+export const purgeRetryQueue = async (maxAttempts: number, all = false): Promise<number> => {
+    const db = await getDB();
+    const result = all
+        ? await db.run('DELETE FROM retry_queue WHERE profile = ?', currentProfile())
+        : await db.run('DELETE FROM retry_queue WHERE profile = ? AND attempts >= ?', currentProfile(), maxAttempts);
+    return result.changes ?? 0;
+};
+
+/**
+ * Activity Archive Table Functions
+ */
+
+export interface ArchiveEntry {
+    id: number;
+    region: SyncService;
+    activityId: string;
+    // relative to the download directory of the profile
+    filePath: string;
+    // sha256 of the file content, activities with the same content share one file
+    fileHash: string;
+    size: number;
+    sport?: string;
+    startTime?: string;
+    createdAt: string;
+}
+
+export interface ArchiveFilter {
+    region?: SyncService;
+    activityId?: string;
+    sport?: string;
+    // start time bounds, YYYY-MM-DD
+    since?: string;
+    until?: string;
+    limit?: number;
+}
+
+/**
+ * Initialize the index of downloaded activity files
+ */
+export const initActivityArchiveTable = async () => {
+    const db = await getDB();
+    await db.exec(`CREATE TABLE IF NOT EXISTS activity_archive (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            profile VARCHAR(50) NOT NULL DEFAULT '${DAILYSYNC_PROFILE_DEFAULT}',
+            region VARCHAR(20),
+            activity_id VARCHAR(50),
+            file_path TEXT,
+            file_hash VARCHAR(64),
+            size INTEGER,
+            sport VARCHAR(50),
+            start_time DATETIME,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            UNIQUE (profile, region, activity_id)
+        )`);
+    await db.exec('CREATE INDEX IF NOT EXISTS activity_archive_hash ON activity_archive (profile, file_hash)');
+};
+
+const toArchiveEntry = (r: any): ArchiveEntry => ({
+    id: r.id,
+    region: r.region,
+    activityId: r.activity_id,
+    filePath: r.file_path,
+    fileHash: r.file_hash,
+    size: r.size,
+    sport: r.sport ?? undefined,
+    startTime: r.start_time ?? undefined,
+    createdAt: r.created_at,
+});
+
+/**
+ * Add an archived activity file, or point the activity at a new file if it is already archived
+ */
+export const saveArchiveEntry = async (entry: Omit<ArchiveEntry, 'id' | 'createdAt'>): Promise<void> => {
+    const db = await getDB();
+    await db.run(
+        `INSERT INTO activity_archive (profile, region, activity_id, file_path, file_hash, size, sport, start_time, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+            ON CONFLICT (profile, region, activity_id) DO UPDATE SET
+                file_path = excluded.file_path, file_hash = excluded.file_hash, size = excluded.size,
+                sport = excluded.sport, start_time = excluded.start_time, created_at = excluded.created_at`,
+        currentProfile(), entry.region, entry.activityId, entry.filePath, entry.fileHash, entry.size,
+        entry.sport ?? null, entry.startTime ?? null,
+    );
+};
+
+export const getArchiveEntry = async (region: SyncService, activityId: string): Promise<ArchiveEntry | undefined> => {
+    const db = await getDB();
+    const r = await db.get(
+        'SELECT * FROM activity_archive WHERE profile = ? AND region = ? AND activity_id = ?',
+        currentProfile(), region, activityId,
+    );
+    return r ? toArchiveEntry(r) : undefined;
+};
+
+/**
+ * Any archived activity of the current profile whose file has this content
+ */
+export const getArchiveEntryByHash = async (fileHash: string): Promise<ArchiveEntry | undefined> => {
+    const db = await getDB();
+    const r = await db.get('SELECT * FROM activity_archive WHERE profile = ? AND file_hash = ? ORDER BY id LIMIT 1', currentProfile(), fileHash);
+    return r ? toArchiveEntry(r) : undefined;
+};
+
+/**
+ * Archived activities of the current profile, newest start time first
+ */
+export const getArchiveEntries = async (filter: ArchiveFilter = {}): Promise<ArchiveEntry[]> => {
+    const db = await getDB();
+    const conditions = ['profile = ?'];
+    const params: any[] = [currentProfile()];
+    if (filter.region) {
+        conditions.push('region = ?');
+        params.push(filter.region);
+    }
+    if (filter.activityId) {
+        conditions.push('activity_id = ?');
+        params.push(filter.activityId);
+    }
+    if (filter.sport) {
+        conditions.push('sport = ?');
+        params.push(filter.sport);
+    }
+    if (filter.since) {
+        conditions.push('start_time >= ?');
+        params.push(filter.since);
+    }
+    if (filter.until) {
+        // until is inclusive, start times have a time part
+        conditions.push(`start_time < date(?, '+1 day')`);
+        params.push(filter.until);
+    }
+    const limit = filter.limit ? ` LIMIT ${Number(filter.limit)}` : '';
+    const results = await db.all(
+        `SELECT * FROM activity_archive WHERE ${conditions.join(' AND ')} ORDER BY start_time DESC, id DESC${limit}`,
+        ...params,
+    );
+    return results.map(toArchiveEntry);
+};
+
+/**
+ * Number of archived activities of the current profile that use the file
+ */
+export const countArchiveEntriesByPath = async (filePath: string): Promise<number> => {
+    const db = await getDB();
+    const r = await db.get('SELECT COUNT(*) AS count FROM activity_archive WHERE profile = ? AND file_path = ?', currentProfile(), filePath);
+    return r?.count ?? 0;
+};
+
+export const deleteArchiveEntry = async (id: number): Promise<void> => {
+    const db = await getDB();
+    await db.run('DELETE FROM activity_archive WHERE id = ? AND profile = ?', id, currentProfile());
+};
+
+/**
+ * Import Ledger Table Functions
+ */
+
+// upload status of the file, DUPLICATE also when the duplicate check found the activity before uploading
+export type ImportStatus = 'CREATED' | 'DUPLICATE' | 'REJECTED' | 'AUTH_FAILED' | 'RATE_LIMITED' | 'FAILED';
+
+export interface ImportLedgerEntry {
+    destRegion: GarminRegion;
+    // sha256 of the file content, so renamed or moved files are recognized
+    fileHash: string;
+    filePath: string;
+    status: ImportStatus;
+    destActivityId?: string;
+    message?: string;
+    updatedAt?: string;
+}
+
+/**
+ * Initialize the table of local files imported into a region, used to resume interrupted imports
+ */
+export const initImportLedgerTable = async () => {
+    const db = await getDB();
+    await db.exec(`CREATE TABLE IF NOT EXISTS import_ledger (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            profile VARCHAR(50) NOT NULL DEFAULT '${DAILYSYNC_PROFILE_DEFAULT}',
+            dest_region VARCHAR(20),
+            file_hash VARCHAR(64),
+            file_path TEXT,
+            status VARCHAR(20),
+            dest_activity_id VARCHAR(50),
+            message TEXT,
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            UNIQUE (profile, dest_region, file_hash)
+        )`);
+};
+
+export const saveImportLedgerEntry = async (entry: ImportLedgerEntry): Promise<void> => {
+    const db = await getDB();
+    await db.run(
+        `INSERT INTO import_ledger (profile, dest_region, file_hash, file_path, status, dest_activity_id, message, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+            ON CONFLICT (profile, dest_region, file_hash) DO UPDATE SET
+                file_path = excluded.file_path, status = excluded.status, dest_activity_id = excluded.dest_activity_id,
+                message = excluded.message, updated_at = excluded.updated_at`,
+        currentProfile(), entry.destRegion, entry.fileHash, entry.filePath, entry.status, entry.destActivityId ?? null, entry.message ?? null,
+    );
+};
+
+export const getImportLedgerEntry = async (destRegion: GarminRegion, fileHash: string): Promise<ImportLedgerEntry | undefined> => {
+    const db = await getDB();
+    const r = await db.get(
+        'SELECT * FROM import_ledger WHERE profile = ? AND dest_region = ? AND file_hash = ?',
+        currentProfile(), destRegion, fileHash,
+    );
+    return r ? {
+        destRegion: r.dest_region,
+        fileHash: r.file_hash,
+        filePath: r.file_path,
+        status: r.status,
+        destActivityId: r.dest_activity_id ?? undefined,
+        message: r.message ?? undefined,
+        updatedAt: r.updated_at,
+    } : undefined;
+};
+
+/**
+ * Strava Token Table Functions
+ */
+
+export interface StravaTokenRecord {
+    id: number;
+    profile: string;
+    athleteId?: string;
+    // encrypted like Garmin sessions
+    token: string;
+    updatedAt?: string;
+}
+
+/**
+ * Initialize the table of Strava OAuth tokens, one per profile
+ */
+export const initStravaTokenTable = async () => {
+    const db = await getDB();
+    await db.exec(`CREATE TABLE IF NOT EXISTS strava_token (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            profile VARCHAR(50) NOT NULL DEFAULT '${DAILYSYNC_PROFILE_DEFAULT}',
+            athlete_id VARCHAR(50),
+            token TEXT,
+            updated_at DATETIME,
+            UNIQUE (profile)
+        )`);
+};
+
+/**
+ * Decrypted OAuth token of the current profile
+ * @returns undefined if there is none or it can not be decrypted
+ */
+export const getStravaTokenFromDB = async (): Promise<Record<string, any> | undefined> => {
+    const db = await getDB();
+    const r = await db.get('SELECT token FROM strava_token WHERE profile = ?', currentProfile());
+    if (!r) {
+        return undefined;
+    }
+    try {
+        return decryptSession(r.token);
+    } catch (e: any) {
+        console.log(`Warn: saved Strava token can not be decrypted (${e?.message ?? e}), using STRAVA_REFRESH_TOKEN. Check AESKEY if this happens on every run.`);
+        return undefined;
+    }
+};
+
+export const saveStravaTokenToDB = async (token: Record<string, any>, athleteId?: string): Promise<void> => {
+    const db = await getDB();
+    await db.run(
+        `INSERT INTO strava_token (profile, athlete_id, token, updated_at) VALUES (?, ?, ?, datetime('now'))
+            ON CONFLICT (profile) DO UPDATE SET
+                athlete_id = COALESCE(excluded.athlete_id, strava_token.athlete_id), token = excluded.token, updated_at = excluded.updated_at`,
+        currentProfile(), athleteId ?? null, encryptSession(token),
+    );
+};
+
+/**
+ * Saved tokens of every profile, without decrypting them
+ */
+export const getStravaTokenRecords = async (): Promise<StravaTokenRecord[]> => {
+    const db = await getDB();
+    const results = await db.all('SELECT * FROM strava_token ORDER BY profile');
+    return results.map((r: any) => ({
+        id: r.id,
+        profile: r.profile,
+        athleteId: r.athlete_id ?? undefined,
+        token: r.token,
+        updatedAt: r.updated_at ?? undefined,
+    }));
+};
+
+export const updateStravaTokenCiphertext = async (id: number, encryptedToken: string): Promise<void> => {
+    const db = await getDB();
+    await db.run('UPDATE strava_token SET token = ? WHERE id = ?', encryptedToken, id);
+};
+
+/**
+ * Wellness Daily Table Functions
+ */
+
+// WRITTEN: written to the destination; PRESENT: the destination already had it; LOCAL: the destination can not take it
+export type WellnessStatus = 'WRITTEN' | 'PRESENT' | 'LOCAL' | 'FAILED';
+
+export interface WellnessEntry {
+    sourceRegion: GarminRegion;
+    calendarDate: string;
+    metric: string;
+    // main number of the metric (steps, sleep seconds, average stress, ...), for queries
+    value?: number;
+    // every field read for the metric, JSON
+    data: string;
+    destRegion: GarminRegion;
+    status: WellnessStatus;
+    message?: string;
+    updatedAt?: string;
+}
+
+/**
+ * Initialize the table of daily wellness data read from a region, one row per day and metric
+ * Keeps the metrics the destination region can not take for analysis and insights
+ */
+export const initWellnessTable = async () => {
+    const db = await getDB();
+    await db.exec(`CREATE TABLE IF NOT EXISTS wellness_daily (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            profile VARCHAR(50) NOT NULL DEFAULT '${DAILYSYNC_PROFILE_DEFAULT}',
+            source_region VARCHAR(20),
+            calendar_date VARCHAR(10),
+            metric VARCHAR(30),
+            value REAL,
+            data TEXT,
+            dest_region VARCHAR(20),
+            status VARCHAR(20),
+            message TEXT,
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            UNIQUE (profile, source_region, calendar_date, metric)
+        )`);
+};
+
+export const saveWellnessEntry = async (entry: WellnessEntry): Promise<void> => {
+    const db = await getDB();
+    await db.run(
+        `INSERT INTO wellness_daily (profile, source_region, calendar_date, metric, value, data, dest_region, status, message, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+            ON CONFLICT (profile, source_region, calendar_date, metric) DO UPDATE SET
+                value = excluded.value, data = excluded.data, dest_region = excluded.dest_region, status = excluded.status,
+                message = excluded.message, updated_at = excluded.updated_at`,
+        currentProfile(), entry.sourceRegion, entry.calendarDate, entry.metric, entry.value ?? null, entry.data,
+        entry.destRegion, entry.status, entry.message ?? null,
+    );
+};
+
+/**
+ * Saved days of the current profile, oldest first
+ * @param since inclusive YYYY-MM-DD
+ * @param until inclusive YYYY-MM-DD
+ */
+export const getWellnessEntries = async (sourceRegion: GarminRegion, since: string, until: string): Promise<WellnessEntry[]> => {
+    const db = await getDB();
+    const results = await db.all(
+        `SELECT * FROM wellness_daily WHERE profile = ? AND source_region = ? AND calendar_date >= ? AND calendar_date <= ?
+            ORDER BY calendar_date, metric`,
+        currentProfile(), sourceRegion, since, until,
+    );
+    return results.map((r: any) => ({
+        sourceRegion: r.source_region,
+        calendarDate: r.calendar_date,
+        metric: r.metric,
+        value: r.value ?? undefined,
+        data: r.data,
+        destRegion: r.dest_region,
+        status: r.status,
+        message: r.message ?? undefined,
+        updatedAt: r.updated_at ?? undefined,
+    }));
+};
+
+/**
+ * Wellness Checkpoint Table Functions
+ */
+
+/**
+ * Initialize the table of the last wellness day synced without a stop, one row per direction and profile
+ */
+export const initWellnessCheckpointTable = async () => {
+    const db = await getDB();
+    await db.exec(`CREATE TABLE IF NOT EXISTS wellness_checkpoint (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            profile VARCHAR(50) NOT NULL DEFAULT '${DAILYSYNC_PROFILE_DEFAULT}',
+            source_region VARCHAR(20),
+            dest_region VARCHAR(20),
+            last_date VARCHAR(10),
+            updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+            UNIQUE (profile, source_region, dest_region)
+        )`);
+};
+
+/**
+ * @returns YYYY-MM-DD of the last completed day, undefined if the direction never synced
+ */
+export const getWellnessCheckpoint = async (sourceRegion: GarminRegion, destRegion: GarminRegion): Promise<string | undefined> => {
+    const db = await getDB();
+    const r = await db.get(
+        'SELECT last_date FROM wellness_checkpoint WHERE profile = ? AND source_region = ? AND dest_region = ?',
+        currentProfile(), sourceRegion, destRegion,
+    );
+    return r?.last_date ?? undefined;
+};
+
+export const saveWellnessCheckpoint = async (sourceRegion: GarminRegion, destRegion: GarminRegion, lastDate: string): Promise<void> => {
+    const db = await getDB();
+    await db.run(
+        `INSERT INTO wellness_checkpoint (profile, source_region, dest_region, last_date, updated_at) VALUES (?, ?, ?, ?, datetime('now'))
+            ON CONFLICT (profile, source_region, dest_region) DO UPDATE SET last_date = excluded.last_date, updated_at = excluded.updated_at`,
+        currentProfile(), sourceRegion, destRegion, lastDate,
+    );
+};
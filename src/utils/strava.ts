@@ -1,30 +1,359 @@
-const strava = require('strava-v3');
-import {
-    STRAVA_ACCESS_TOKEN_DEFAULT,
-    STRAVA_CLIENT_ID_DEFAULT,
-    STRAVA_CLIENT_SECRET_DEFAULT,
-    STRAVA_REDIRECT_URI_DEFAULT,
-} from '../constant';
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import _ from 'lodash';
+import { getConfig } from './config';
+import { getDownloadDir, getErrorStatusCode, UploadResult } from './garmin_common';
+import { toTcx } from './activity_export';
+import { archiveActivityFile, getArchivedFile } from './archive';
+import { FitActivity, FitRecord } from './fit';
+import { getStravaTokenFromDB, initStravaTokenTable, saveStravaTokenToDB } from './sqlite';
+import { SyncEndpoint } from './sync_endpoint';
+
+const FormData = require('form-data');
+
+/**
+ * Strava as a sync destination and source
+ * 中国区账号无法使用佳明自带的 Strava 关联，新活动的原始文件由此上传到 Strava。
+ * The OAuth token is saved encrypted per profile and refreshed before it expires (every six hours),
+ * STRAVA_REFRESH_TOKEN is only needed until the first token is saved.
+ * The API does not offer the original files of Strava activities, they are synced as TCX built from the streams.
+ * See createStravaEndpoint, syncBetweenEndpoints moves the activities.
+ */
+
+const STRAVA_AUTHORIZE_URL = 'https://www.strava.com/oauth/authorize';
+const STRAVA_SCOPE = 'read,activity:read_all,activity:write';
+// refresh the access token this many seconds before it expires
+const TOKEN_EXPIRY_MARGIN_S = 300;
+// default wait between two checks of a processing upload
+const UPLOAD_POLL_INTERVAL_MS = 2000;
+const UPLOAD_POLL_ATTEMPTS = 30;
+// page size limit of the activity list
+const ACTIVITIES_PAGE_MAX = 200;
+const STREAM_KEYS = ['time', 'latlng', 'distance', 'altitude', 'heartrate', 'cadence', 'watts', 'temp', 'velocity_smooth'];
+// Strava sport_type -> FIT sport name used by the TCX conversion
+const STRAVA_SPORTS: Record<string, string> = {
+    Run: 'running', TrailRun: 'running', VirtualRun: 'running',
+    Ride: 'cycling', MountainBikeRide: 'cycling', GravelRide: 'cycling', VirtualRide: 'cycling',
+    EBikeRide: 'e_biking', EMountainBikeRide: 'e_biking',
+    Walk: 'walking', Hike: 'hiking', Swim: 'swimming',
+};
+
+/**
+ * No usable OAuth token, every request would fail until the app is authorized again
+ */
+export class StravaAuthError extends Error {
+    // handled like a 401 response
+    readonly status = 401;
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'StravaAuthError';
+    }
+}
+
+const getApiUrl = (): string => getConfig().strava.apiUrl.replace(/\/+$/, '');
+
+export const getStravaAuthorizeUrl = (): string => {
+    const { clientId, redirectUri } = getConfig().strava;
+    const query = new URLSearchParams({
+        client_id: clientId,
+        response_type: 'code',
+        redirect_uri: redirectUri || 'http://localhost',
+        approval_prompt: 'force',
+        scope: STRAVA_SCOPE,
+    });
+    return `${STRAVA_AUTHORIZE_URL}?${query}`;
+};
+
+const requestToken = async (params: Record<string, string>): Promise<Record<string, any>> => {
+    const { clientId, clientSecret } = getConfig().strava;
+    const { data } = await axios.post(`${getApiUrl()}/oauth/token`, {
+        client_id: clientId,
+        client_secret: clientSecret,
+        ...params,
+    });
+    return data;
+};
+
+const saveToken = async (token: Record<string, any>): Promise<void> => {
+    await saveStravaTokenToDB(
+        _.pick(token, ['access_token', 'refresh_token', 'expires_at']),
+        token.athlete?.id ? String(token.athlete.id) : undefined,
+    );
+};
+
+/**
+ * Exchange the code of the authorization page for a token and save it
+ * @returns the athlete who authorized the app
+ */
+export const authorizeStrava = async (code: string): Promise<Record<string, any>> => {
+    await initStravaTokenTable();
+    const token = await requestToken({ grant_type: 'authorization_code', code });
+    await saveToken(token);
+    return token.athlete ?? {};
+};
+
+/**
+ * Valid access token of the current profile, refreshed and saved if it expires soon
+ * @throws StravaAuthError if there is no token to refresh or Strava refuses the refresh token
+ */
+export const getStravaAccessToken = async (): Promise<string> => {
+    await initStravaTokenTable();
+    const saved = await getStravaTokenFromDB();
+    if (saved && Number(saved.expires_at) - TOKEN_EXPIRY_MARGIN_S > Date.now() / 1000) {
+        return saved.access_token;
+    }
+    const { accessToken, refreshToken } = getConfig().strava;
+    const refresh = saved?.refresh_token ?? refreshToken;
+    if (!refresh) {
+        if (accessToken) {
+            // static token from STRAVA_ACCESS_TOKEN, only valid for six hours
+            return accessToken;
+        }
+        throw new StravaAuthError(`No Strava token, run 'dailysync strava auth' or set STRAVA_REFRESH_TOKEN`);
+    }
+    try {
+        const token = await requestToken({ grant_type: 'refresh_token', refresh_token: refresh });
+        // Strava may rotate the refresh token, only the latest one stays valid
+        await saveToken(token);
+        return token.access_token;
+    } catch (error: any) {
+        const status = getErrorStatusCode(error);
+        throw new StravaAuthError(`Strava token refresh failed (status: ${status || 'N/A'}): ${error?.response?.data?.message ?? error?.message}. `
+            + `Run 'dailysync strava auth' if the app was deauthorized`);
+    }
+};
+
+const authHeaders = async () => ({ Authorization: `Bearer ${await getStravaAccessToken()}` });
+
+export const getStravaAthlete = async (): Promise<Record<string, any>> => {
+    const { data } = await axios.get(`${getApiUrl()}/athlete`, { headers: await authHeaders() });
+    return data;
+};
 
 /**
- *  strava关联佳明国际区账号后可以由佳明国际区同步到strava，此方法暂时废弃
+ * Activities of the athlete, newest first
+ * @param count page size, at most 200
+ * @param page 1 for the latest activities
  */
+export const getStravaActivities = async (count: number, page = 1): Promise<Record<string, any>[]> => {
+    const { data } = await axios.get(`${getApiUrl()}/athlete/activities`, {
+        headers: await authHeaders(),
+        params: { per_page: Math.min(count, ACTIVITIES_PAGE_MAX), page },
+    });
+    return data;
+};
 
-const STRAVA_ACCESS_TOKEN = process.env.STRAVA_ACCESS_TOKEN ?? STRAVA_ACCESS_TOKEN_DEFAULT;
-const STRAVA_CLIENT_ID = process.env.STRAVA_CLIENT_ID ?? STRAVA_CLIENT_ID_DEFAULT;
-const STRAVA_CLIENT_SECRET = process.env.STRAVA_CLIENT_SECRET ?? STRAVA_CLIENT_SECRET_DEFAULT;
-const STRAVA_REDIRECT_URI = process.env.STRAVA_REDIRECT_URI ?? STRAVA_REDIRECT_URI_DEFAULT;
+/**
+ * Streams of an activity by type, e.g. { time: { data: [...] }, heartrate: { data: [...] } }
+ * @returns an empty object for manual activities, which have no streams
+ */
+export const getStravaActivityStreams = async (activityId: string | number): Promise<Record<string, any>> => {
+    try {
+        const { data } = await axios.get(`${getApiUrl()}/activities/${activityId}/streams`, {
+            headers: await authHeaders(),
+            params: { keys: STREAM_KEYS.join(','), key_by_type: true },
+        });
+        return data ?? {};
+    } catch (error: any) {
+        if (getErrorStatusCode(error) === 404) {
+            return {};
+        }
+        throw error;
+    }
+};
 
-strava.config({
-    'access_token': STRAVA_ACCESS_TOKEN,
-    'client_id': STRAVA_CLIENT_ID,
-    'client_secret': STRAVA_CLIENT_SECRET,
-    'redirect_uri': STRAVA_REDIRECT_URI,
+/**
+ * Activity of the Strava summary and streams in the shape of a decoded FIT file, for the TCX conversion
+ * Without streams (manual activities) there are no records, the session gives one lap with the totals.
+ */
+export const toFitActivity = (act: Record<string, any>, streams: Record<string, any>): FitActivity => {
+    const startTime = new Date(act.start_date);
+    const at = (key: string, i: number): any => streams[key]?.data?.[i];
+    const records: FitRecord[] = (streams.time?.data ?? []).map((offset: number, i: number) => ({
+        timestamp: new Date(startTime.getTime() + offset * 1000),
+        positionLat: at('latlng', i)?.[0],
+        positionLong: at('latlng', i)?.[1],
+        altitude: at('altitude', i),
+        distance: at('distance', i),
+        heartRate: at('heartrate', i),
+        speed: at('velocity_smooth', i),
+        cadence: at('cadence', i),
+        power: at('watts', i),
+        temperature: at('temp', i),
+    }));
+    return {
+        sessions: [{
+            startTime,
+            sport: STRAVA_SPORTS[act.sport_type ?? act.type] ?? 'generic',
+            totalElapsedTime: act.elapsed_time,
+            totalTimerTime: act.moving_time,
+            totalDistance: act.distance,
+            totalCalories: act.calories ?? (act.kilojoules ? act.kilojoules / 4.184 : undefined),
+            avgSpeed: act.average_speed,
+            maxSpeed: act.max_speed,
+            avgHeartRate: act.average_heartrate,
+            maxHeartRate: act.max_heartrate,
+            avgCadence: act.average_cadence,
+            avgPower: act.average_watts,
+            maxPower: act.max_watts,
+        }],
+        laps: [],
+        records,
+        devices: [],
+    };
+};
+
+/**
+ * Set name and description of an activity
+ */
+export const updateStravaActivity = async (activityId: string, metadata: { name?: string; description?: string }): Promise<void> => {
+    await axios.put(`${getApiUrl()}/activities/${activityId}`, _.omitBy(metadata, _.isNil), { headers: await authHeaders() });
+};
+
+const parseStravaError = (error: any): UploadResult => {
+    if (error instanceof StravaAuthError) {
+        return { status: 'AUTH_FAILED', message: error.message };
+    }
+    const statusCode = getErrorStatusCode(error);
+    const data = error?.response?.data;
+    const message = data?.error || data?.message || error?.message || 'Unknown error';
+    if (statusCode === 401 || statusCode === 403) {
+        return { status: 'AUTH_FAILED', message };
+    }
+    if (statusCode === 429) {
+        return { status: 'RATE_LIMITED', message };
+    }
+    if (statusCode === 400 || statusCode === 413 || statusCode === 422) {
+        return { status: 'REJECTED', message };
+    }
+    return { status: 'FAILED', message };
+};
+
+/**
+ * Upload status response: processing, failed ("... duplicate of activity 123") or done with activity_id
+ * @returns undefined while Strava is still processing the file
+ */
+const parseUploadStatus = (upload: Record<string, any>): UploadResult | undefined => {
+    if (upload.activity_id) {
+        return { status: 'CREATED', activityId: String(upload.activity_id) };
+    }
+    if (upload.error) {
+        const message = String(upload.error);
+        const duplicateOf = /duplicate of\D*(\d+)/i.exec(message)?.[1];
+        return duplicateOf ? { status: 'DUPLICATE', activityId: duplicateOf, message } : { status: 'REJECTED', message };
+    }
+    return undefined;
+};
+
+/**
+ * Upload an activity file to Strava and wait until it is processed
+ * @param externalId identifier of the file on our side, shown by Strava for the upload
+ * @param pollInterval milliseconds between two checks of the upload status
+ */
+export const uploadStravaActivity = async (
+    filePath: string,
+    externalId?: string,
+    pollInterval = UPLOAD_POLL_INTERVAL_MS,
+): Promise<UploadResult> => {
+    try {
+        const headers = await authHeaders();
+        const form = new FormData();
+        form.append('file', fs.createReadStream(filePath));
+        form.append('data_type', path.extname(filePath).slice(1).toLowerCase());
+        if (externalId) {
+            form.append('external_id', externalId);
+        }
+        let { data: upload } = await axios.post(`${getApiUrl()}/uploads`, form, { headers: { ...form.getHeaders(), ...headers } });
+        for (let attempt = 0; attempt < UPLOAD_POLL_ATTEMPTS; attempt++) {
+            const result = parseUploadStatus(upload);
+            if (result) {
+                return result;
+            }
+            await new Promise(resolve => setTimeout(resolve, pollInterval));
+            ({ data: upload } = await axios.get(`${getApiUrl()}/uploads/${upload.id_str ?? upload.id}`, { headers }));
+        }
+        return parseUploadStatus(upload) ?? { status: 'FAILED', message: `Strava is still processing upload ${upload.id_str ?? upload.id}` };
+    } catch (error: any) {
+        return parseStravaError(error);
+    }
+};
+
+/**
+ * Activities Garmin itself (auto sync) or the Garmin endpoints put on Strava, they were recorded on a Garmin account
+ */
+const isFromGarmin = (act: Record<string, any>): boolean => /^garmin/i.test(act.external_id ?? '');
+
+const toGarminTime = (time: string | undefined): string | undefined => time ? time.slice(0, 19).replace('T', ' ') : undefined;
+
+// same shape as the Garmin activity list
+const toActivitySummary = (act: Record<string, any>): Record<string, any> => ({
+    activityId: String(act.id),
+    activityName: act.name,
+    startTimeGMT: toGarminTime(act.start_date),
+    startTimeLocal: toGarminTime(act.start_date_local),
+    duration: act.elapsed_time,
+    distance: act.distance,
+    activityType: { typeKey: STRAVA_SPORTS[act.sport_type ?? act.type] ?? 'other' },
+    description: act.description,
+    stravaActivity: act,
 });
 
-export const getStravaUserInfo = async () => {
-    console.log('STRAVA_ACCESS_TOKEN',STRAVA_ACCESS_TOKEN);
+/**
+ * Build a TCX file from the streams of an activity and archive it
+ * @returns path of the archived file
+ */
+const downloadStravaActivity = async (act: Record<string, any>): Promise<string> => {
+    const archived = await getArchivedFile('STRAVA', String(act.id));
+    if (archived) {
+        return archived;
+    }
+    const streams = await getStravaActivityStreams(act.id);
+    const outDir = path.join(getDownloadDir(), 'strava');
+    const filePath = path.join(outDir, `${act.id}.tcx`);
+    fs.mkdirSync(outDir, { recursive: true });
+    fs.writeFileSync(filePath, toTcx(toFitActivity(act, streams), act.name));
+    return archiveActivityFile('STRAVA', toActivitySummary(act), filePath);
+};
 
-    const payload = await strava.athlete.get({});
-    console.log(payload);
+/**
+ * Activities from list position start on, paged by the largest Strava page size
+ * @param start position in the activity list, newest first
+ * @param limit number of activities, any number
+ */
+const listStravaActivities = async (start: number, limit: number): Promise<Record<string, any>[]> => {
+    const acts: Record<string, any>[] = [];
+    let page = Math.floor(start / ACTIVITIES_PAGE_MAX) + 1;
+    let skip = start % ACTIVITIES_PAGE_MAX;
+    while (acts.length < limit) {
+        const pageActs = await getStravaActivities(ACTIVITIES_PAGE_MAX, page);
+        acts.push(...pageActs.slice(skip, skip + limit - acts.length));
+        if (pageActs.length < ACTIVITIES_PAGE_MAX) {
+            break;
+        }
+        page++;
+        skip = 0;
+    }
+    return acts;
 };
+
+/**
+ * Strava as sync endpoint, activities recorded by Garmin devices are not synced on since Garmin has their originals
+ * @param options pollInterval: milliseconds between two checks of an upload status, 2 seconds by default
+ */
+export const createStravaEndpoint = (options: { pollInterval?: number } = {}): SyncEndpoint => ({
+    name: 'strava',
+    service: 'STRAVA',
+    listActivities: async (start, limit) => (await listStravaActivities(start, limit)).map(toActivitySummary),
+    isSyncable: act => !isFromGarmin(act.stravaActivity),
+    downloadOriginal: act => downloadStravaActivity(act.stravaActivity),
+    // external_id garmin-<region>-<id> marks the activities of Garmin accounts
+    upload: (filePath, origin) => uploadStravaActivity(
+        filePath,
+        `${origin.service === 'ARCHIVE' ? 'archive' : `garmin-${origin.service.toLowerCase()}`}-${origin.activityId}`,
+        options.pollInterval,
+    ),
+    hasMetadata: true,
+    updateMetadata: (activityId, source) => updateStravaActivity(activityId, { name: source.activityName, description: source.description }),
+});
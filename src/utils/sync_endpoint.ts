@@ -0,0 +1,538 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import _ from 'lodash';
+import { getGaminCNClient } from './garmin_cn';
+import { getGaminGlobalClient } from './garmin_global';
+import {
+    ActivitySelection,
+    advanceMigrateCheckpoint,
+    completeMigrateCheckpoint,
+    copyActivityMetadata,
+    createDuplicateChecker,
+    findDuplicateActivities,
+    getActivityFingerprint,
+    getErrorStatusCode,
+    initSyncLedgerBaseline,
+    isFatalUploadStatus,
+    isSameFingerprint,
+    isSameStartTime,
+    isUploadSucceeded,
+    iterateActivityPages,
+    MigrateOptions,
+    recordSyncDuplicate,
+    recordSyncResult,
+    startMigrateRun,
+    updateActivityMetadata,
+    uploadGarminActivity,
+    downloadGarminActivity,
+    UploadResult,
+} from './garmin_common';
+import { archiveActivityFile, resolveArchivePath } from './archive';
+import { readActivityStartTime } from './activity_import';
+import { createStravaEndpoint } from './strava';
+import { filterActivitiesByType } from './activity_filter';
+import {
+    getArchiveEntries,
+    getArchiveEntryByHash,
+    getSyncLedgerEntries,
+    initActivityArchiveTable,
+    initSyncLedgerTable,
+    MigrateCheckpoint,
+} from './sqlite';
+import { addSyncPlanItem, createSyncPlan, printSyncPlan, SyncPlan, SyncPlanItem } from './sync_plan';
+import { addSyncReportItem, createSyncReport, finishSyncReport, SyncReport } from './sync_report';
+import { drainRetryQueue, enqueueRetry, getQueuedActivityIds, planRetryQueue } from './retry_queue';
+import { mirrorSourceChanges } from './mirror';
+import { GarminActivity, needsActivityInsight, processActivityWithInsights } from './ai_insights';
+import { ConfigPath, GARMIN_CN_ACCOUNT, GARMIN_GLOBAL_ACCOUNT, getConfig, STRAVA_APP } from './config';
+import { GarminClientType, GarminRegion, SyncService } from './type';
+
+/**
+ * Sync endpoints: the places activities are synced between (Garmin CN, Garmin Global, the local archive, Strava)
+ * Every endpoint lists its activities in the shape of the Garmin activity list (activityId, activityName,
+ * startTimeLocal, startTimeGMT, duration, distance, activityType.typeKey), so activity filters, the duplicate
+ * checker, the sync plan and the report work the same for all of them.
+ * syncBetweenEndpoints moves new activities from any endpoint to any other, recorded in the sync ledger.
+ * Between the Garmin accounts the retry queue, mirroring, AI insights and the migrate checkpoint come in as SyncHooks.
+ */
+
+export type SyncEndpointName = 'cn' | 'global' | 'archive' | 'strava';
+
+export const SYNC_ENDPOINT_NAMES: SyncEndpointName[] = ['cn', 'global', 'archive', 'strava'];
+
+// where an uploaded file came from, endpoints may tag the upload with it
+export interface ActivityOrigin {
+    service: SyncService;
+    activityId: string;
+}
+
+export interface SyncEndpoint {
+    name: SyncEndpointName;
+    // key of the endpoint in the sync ledger
+    service: SyncService;
+    /**
+     * Activities newest first, start is a multiple of limit
+     */
+    listActivities(start: number, limit: number): Promise<Record<string, any>[]>;
+    /**
+     * Activities the endpoint only holds as copies from elsewhere are not synced on, true when missing
+     */
+    isSyncable?(act: Record<string, any>): boolean;
+    /**
+     * Local path of the original file of a listed activity
+     */
+    downloadOriginal(act: Record<string, any>): Promise<string>;
+    upload(filePath: string, origin: ActivityOrigin): Promise<UploadResult>;
+    // whether activities have a name and description of their own
+    hasMetadata: boolean;
+    /**
+     * Set name and description of an uploaded activity to the ones of a listed source activity
+     */
+    updateMetadata(activityId: string, source: Record<string, any>): Promise<void>;
+}
+
+/**
+ * Extra steps of syncBetweenEndpoints for one direction, all optional
+ */
+export interface SyncHooks {
+    /**
+     * Pages of source activities to go through instead of the latest ones, newest first
+     */
+    listActivities?(): AsyncIterable<Record<string, any>[]>;
+    /**
+     * Ids of listed source activities the run leaves alone, checked before the sync ledger
+     * @param dryRun nothing may be written
+     */
+    excludeActivities?(acts: Record<string, any>[], dryRun: boolean): Promise<Set<string>>;
+    /**
+     * Add what beforeSync would do to the dry run plan
+     */
+    planBeforeSync?(plan: SyncPlan): Promise<void>;
+    /**
+     * Extra fields of the UPLOAD plan item of an activity
+     */
+    planUpload?(act: Record<string, any>): Promise<Pick<SyncPlanItem, 'annotate'>>;
+    /**
+     * Runs before the activities of a real run
+     * @returns stopped: the rest of the run is skipped
+     */
+    beforeSync?(report: SyncReport): Promise<{ stopped: boolean }>;
+    /**
+     * Runs between the download and the upload of an activity
+     * @param sourceActs the listed page of the activity
+     */
+    beforeUpload?(act: Record<string, any>, sourceActs: Record<string, any>[]): Promise<void>;
+    /**
+     * Copies the metadata to an uploaded activity instead of dest.updateMetadata
+     */
+    copyMetadata?(act: Record<string, any>, upload: UploadResult): Promise<void>;
+    /**
+     * Runs after the upload result of an activity is recorded
+     * @param upload undefined when the download failed
+     */
+    afterUpload?(act: Record<string, any>, upload: UploadResult | undefined, error: unknown): Promise<void>;
+    /**
+     * Runs once an activity is done with: uploaded, failed, or already on the destination;
+     * not for the activity a failure stopped the run at
+     */
+    afterActivity?(act: Record<string, any>): Promise<void>;
+    /**
+     * Runs at the end of the run, also of a dry run
+     * @param stopped the run stopped at an expired login or rate limit
+     */
+    afterSync?(dryRun: boolean, stopped: boolean): Promise<void>;
+}
+
+export interface EndpointSyncOptions {
+    // sync: the latest activities, oldest first; migrate: the pages of hooks.listActivities in listed order
+    mode?: SyncPlan['mode'];
+    // only print the sync plan
+    dryRun?: boolean;
+    // number of latest source activities to check, GARMIN_SYNC_NUM by default
+    count?: number;
+    hooks?: SyncHooks;
+}
+
+const GARMIN_SERVICES: SyncService[] = ['CN', 'GLOBAL'];
+
+const getUploadFormat = (filePath: string) => path.extname(filePath).slice(1).toLowerCase() as 'fit' | 'gpx' | 'tcx';
+
+// Garmin list time format, 'YYYY-MM-DD HH:mm:ss' in UTC
+const toGarminTime = (date: Date): string => date.toISOString().slice(0, 19).replace('T', ' ');
+
+const loginGarmin = (region: GarminRegion): Promise<GarminClientType> => region === 'GLOBAL' ? getGaminGlobalClient() : getGaminCNClient();
+
+/**
+ * Garmin account of a region, logged in on first use
+ * @param client already logged in client of the region
+ */
+export const createGarminEndpoint = (region: GarminRegion, client?: GarminClientType): SyncEndpoint => {
+    let loggedIn: Promise<GarminClientType> | undefined = client ? Promise.resolve(client) : undefined;
+    const getClient = (): Promise<GarminClientType> => {
+        if (!loggedIn) {
+            loggedIn = loginGarmin(region);
+        }
+        return loggedIn;
+    };
+    return {
+        name: region === 'GLOBAL' ? 'global' : 'cn',
+        service: region,
+        listActivities: async (start, limit) => (await getClient()).getActivities(start, limit),
+        downloadOriginal: async act => downloadGarminActivity(act.activityId, await getClient()),
+        upload: async filePath => uploadGarminActivity(filePath, await getClient(), getUploadFormat(filePath)),
+        hasMetadata: true,
+        updateMetadata: async (activityId, source) => updateActivityMetadata(activityId, source, await getClient()),
+    };
+};
+
+/**
+ * Local archive of downloaded activity files, activities are listed by archive entry id
+ * Downloading from any other endpoint archives the file, so uploading to the archive only looks it up;
+ * files from elsewhere are copied in.
+ */
+export const createArchiveEndpoint = (): SyncEndpoint => ({
+    name: 'archive',
+    service: 'ARCHIVE',
+    listActivities: async (start, limit) => {
+        await initActivityArchiveTable();
+        const entries = (await getArchiveEntries({ limit: start + limit })).slice(start);
+        return entries.map(entry => {
+            const startTime = readActivityStartTime(resolveArchivePath(entry.filePath));
+            return {
+                activityId: String(entry.id),
+                activityName: `${entry.region} ${entry.activityId}`,
+                startTimeLocal: entry.startTime,
+                // the archive only has the local start time, the file has the UTC one
+                startTimeGMT: startTime ? toGarminTime(startTime) : undefined,
+                activityType: { typeKey: entry.sport ?? '' },
+                filePath: entry.filePath,
+            };
+        });
+    },
+    downloadOriginal: async act => resolveArchivePath(act.filePath),
+    upload: async (filePath, origin) => {
+        await initActivityArchiveTable();
+        const fileHash = crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+        let entry = await getArchiveEntryByHash(fileHash);
+        if (!entry) {
+            // archiveActivityFile moves the file, the source keeps its own
+            const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dailysync-'));
+            try {
+                const copy = path.join(tempDir, path.basename(filePath));
+                fs.copyFileSync(filePath, copy);
+                await archiveActivityFile(origin.service, { activityId: origin.activityId }, copy);
+            } finally {
+                fs.rmSync(tempDir, { recursive: true, force: true });
+            }
+            entry = await getArchiveEntryByHash(fileHash);
+        }
+        return { status: 'CREATED', activityId: entry ? String(entry.id) : undefined };
+    },
+    hasMetadata: false,
+    updateMetadata: async () => undefined,
+});
+
+/**
+ * @throws Error for an unknown name
+ */
+export const getSyncEndpoint = (name: SyncEndpointName): SyncEndpoint => {
+    switch (name) {
+        case 'cn':
+            return createGarminEndpoint('CN');
+        case 'global':
+            return createGarminEndpoint('GLOBAL');
+        case 'archive':
+            return createArchiveEndpoint();
+        case 'strava':
+            return createStravaEndpoint();
+        default:
+            throw new Error(`Unknown sync endpoint ${name}, use one of ${SYNC_ENDPOINT_NAMES.join(', ')}`);
+    }
+};
+
+/**
+ * Configuration an endpoint needs, for Command.requires
+ */
+export const getSyncEndpointRequirements = (name: SyncEndpointName): ConfigPath[] => {
+    switch (name) {
+        case 'cn':
+            return GARMIN_CN_ACCOUNT;
+        case 'global':
+            return GARMIN_GLOBAL_ACCOUNT;
+        case 'strava':
+            return STRAVA_APP;
+        default:
+            return [];
+    }
+};
+
+// failures of the download that will hit every following activity too
+const isFatalDownloadError = (error: any): boolean => [401, 403, 429].includes(getErrorStatusCode(error));
+
+async function* listLatestActivities(source: SyncEndpoint, count: number): AsyncGenerator<Record<string, any>[]> {
+    yield await source.listActivities(0, count);
+}
+
+/**
+ * Listed source activities still to sync: allowed by the activity type filter and the endpoint,
+ * not excluded by the hooks and not done according to the sync ledger
+ * A migration does not trust the BASELINE entries of the first sync, the duplicate check decides for those.
+ */
+const selectActivities = async (
+    source: SyncEndpoint,
+    dest: SyncEndpoint,
+    sourceActs: Record<string, any>[],
+    options: EndpointSyncOptions,
+): Promise<Record<string, any>[]> => {
+    const syncableActs = filterActivitiesByType(sourceActs).filter(act => source.isSyncable?.(act) ?? true);
+    const excludedIds = await options.hooks?.excludeActivities?.(syncableActs, Boolean(options.dryRun)) ?? new Set<string>();
+    const acts = syncableActs.filter(act => !excludedIds.has(String(act.activityId)));
+    const entries = await getSyncLedgerEntries(source.service, dest.service, acts.map(act => String(act.activityId)));
+    const doneIds = new Set(entries
+        .filter(e => e.status !== 'FAILED' && !(options.mode === 'migrate' && e.status === 'BASELINE'))
+        .map(e => e.sourceActivityId));
+    return acts.filter(act => !doneIds.has(String(act.activityId)));
+};
+
+/**
+ * Download an activity from the source endpoint, upload it to the destination and record the result
+ * @param sourceActs the listed page of the activity
+ * @returns stopped: a failure that every following activity would hit too
+ */
+const transferActivity = async (
+    source: SyncEndpoint,
+    dest: SyncEndpoint,
+    act: Record<string, any>,
+    sourceActs: Record<string, any>[],
+    hooks: SyncHooks,
+    report: SyncReport,
+): Promise<{ stopped: boolean }> => {
+    let upload: UploadResult | undefined;
+    let error;
+    try {
+        const filePath = await source.downloadOriginal(act);
+        await hooks.beforeUpload?.(act, sourceActs);
+        console.log(`${source.name} -> ${dest.name}: uploading 【 ${act.activityName} 】 ${act.startTimeLocal}, activity ${act.activityId}`);
+        upload = await dest.upload(filePath, { service: source.service, activityId: String(act.activityId) });
+    } catch (e) {
+        error = e;
+        console.log(`${source.name} -> ${dest.name}: download of activity ${act.activityId} failed`, (e as any)?.message ?? e);
+    }
+    if (upload?.status === 'CREATED' && upload.activityId && source.hasMetadata && dest.hasMetadata) {
+        try {
+            await (hooks.copyMetadata ? hooks.copyMetadata(act, upload) : dest.updateMetadata(upload.activityId, act));
+        } catch (e: any) {
+            console.error(`Metadata: Failed to update activity ${upload.activityId} (status: ${getErrorStatusCode(e) || 'N/A'}): ${e?.message ?? e}`);
+        }
+    }
+    addSyncReportItem(report, act, upload, error);
+    await recordSyncResult(act.activityId, source.service, dest.service, upload);
+    await hooks.afterUpload?.(act, upload, error);
+    if (upload ? isFatalUploadStatus(upload.status) : isFatalDownloadError(error)) {
+        console.log(`${source.name} -> ${dest.name}: ${upload?.status ?? 'download failed'}, stopping, the remaining activities are synced next time`);
+        return { stopped: true };
+    }
+    await hooks.afterActivity?.(act);
+    return { stopped: false };
+};
+
+/**
+ * Copy the source activities the destination does not have yet
+ * Activities already in the sync ledger are skipped, the rest are matched against the destination activities
+ * (by fingerprint between Garmin accounts, by start time otherwise) before downloading and uploading them.
+ * A sync goes through the latest activities oldest first, a migration through the pages of hooks.listActivities
+ * in listed order, newest first, so that a checkpoint can follow it.
+ * Stops at the first expired login or rate limit, the next run continues from there.
+ * @returns stopped: the run stopped early
+ */
+export const syncBetweenEndpoints = async (
+    source: SyncEndpoint,
+    dest: SyncEndpoint,
+    options: EndpointSyncOptions = {},
+): Promise<{ stopped: boolean }> => {
+    const hooks = options.hooks ?? {};
+    const mode = options.mode ?? 'sync';
+    await initSyncLedgerTable();
+    // the duplicate checker only pages the destination activity list, once for all source pages
+    const destLister = { getActivities: (start: number, limit: number) => dest.listActivities(start, limit) };
+    const isGarminPair = GARMIN_SERVICES.includes(source.service) && GARMIN_SERVICES.includes(dest.service);
+    const isSame = isGarminPair ? isSameFingerprint : isSameStartTime;
+    const duplicateChecker = createDuplicateChecker(destLister, 100, isSame);
+    const pages = hooks.listActivities?.() ?? listLatestActivities(source, options.count ?? getConfig().garmin.syncNum);
+
+    const plan = createSyncPlan(mode, source.service, dest.service);
+    const report = createSyncReport(mode, source.service, dest.service);
+    if (options.dryRun) {
+        await hooks.planBeforeSync?.(plan);
+    } else if ((await hooks.beforeSync?.(report))?.stopped) {
+        finishSyncReport(report);
+        return { stopped: true };
+    }
+
+    let stopped = false;
+    for await (const sourceActs of pages) {
+        const acts = await selectActivities(source, dest, sourceActs, options);
+        const { newActs, duplicates } = await findDuplicateActivities(acts, destLister, isSame, duplicateChecker);
+        console.log(`${source.name} -> ${dest.name}: ${newActs.length} of ${sourceActs.length} listed activities to ${mode}, ${duplicates.length} already on ${dest.name}`);
+        const existingActs = new Map(duplicates.map(duplicate => [duplicate.act, duplicate.existing]));
+        const orderedActs = mode === 'migrate' ? acts : _.sortBy(acts, act => getActivityFingerprint(act).startTime || 0);
+        for (const act of orderedActs) {
+            const existing = existingActs.get(act);
+            if (options.dryRun) {
+                addSyncPlanItem(plan, existing ? 'SKIP_DUPLICATE' : 'UPLOAD', act, existing
+                    ? { existingActivityId: String(existing.activityId) }
+                    : await hooks.planUpload?.(act));
+            } else if (existing) {
+                await recordSyncDuplicate({ act, existing }, source.service, dest.service);
+                addSyncReportItem(report, act, { status: 'DUPLICATE', activityId: String(existing.activityId) });
+                await hooks.afterActivity?.(act);
+            } else if ((await transferActivity(source, dest, act, sourceActs, hooks, report)).stopped) {
+                stopped = true;
+                break;
+            }
+        }
+        if (stopped) {
+            break;
+        }
+    }
+
+    if (options.dryRun) {
+        printSyncPlan(plan);
+        await hooks.afterSync?.(true, false);
+        return { stopped: false };
+    }
+    await hooks.afterSync?.(false, stopped);
+    finishSyncReport(report);
+    return { stopped };
+};
+
+/**
+ * Retry queue of the transfers between the Garmin accounts
+ * Queued activities are left to drainRetryQueue, which runs first, and failed transfers are queued.
+ * Uploads also get privacy and gear along with name and description, one per second.
+ */
+const createRetryQueueHooks = (
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    sourceClient: GarminClientType,
+    destClient: GarminClientType,
+): SyncHooks => ({
+    // 重试队列中的活动由 drainRetryQueue 处理
+    excludeActivities: () => getQueuedActivityIds(sourceRegion, destRegion),
+    planBeforeSync: plan => planRetryQueue(plan),
+    beforeSync: report => drainRetryQueue(sourceClient, destClient, sourceRegion, destRegion, report),
+    copyMetadata: async (act, upload) => {
+        await copyActivityMetadata(act.activityId, sourceClient, upload, destClient);
+    },
+    afterUpload: async (act, upload, error) => {
+        if (!isUploadSucceeded(upload)) {
+            await enqueueRetry(act, sourceRegion, destRegion, upload, error);
+        }
+        // 避免请求过于频繁
+        await new Promise(resolve => setTimeout(resolve, 1000));
+    },
+});
+
+/**
+ * Hooks of a sync between the Garmin accounts: the retry queue, the ledger baseline on the first run,
+ * AI insights on the source activities and mirroring source deletions and edits at the end
+ * @param mirror GARMIN_MIRROR_CHANGES when undefined
+ */
+export const createGarminSyncHooks = (
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    sourceClient: GarminClientType,
+    destClient: GarminClientType,
+    mirror?: boolean,
+): SyncHooks => ({
+    ...createRetryQueueHooks(sourceRegion, destRegion, sourceClient, destClient),
+    excludeActivities: async (acts, dryRun) => {
+        const baselineIds = await initSyncLedgerBaseline(acts, sourceRegion, destRegion, destClient, dryRun);
+        const queuedIds = await getQueuedActivityIds(sourceRegion, destRegion);
+        return new Set([...baselineIds, ...queuedIds]);
+    },
+    planUpload: async act => ({ annotate: await needsActivityInsight(act as GarminActivity) }),
+    beforeUpload: async (act, sourceActs) => {
+        await processActivityWithInsights(act as GarminActivity, sourceClient, sourceActs as GarminActivity[]);
+    },
+    afterSync: async dryRun => {
+        await mirrorSourceChanges(sourceClient, destClient, sourceRegion, destRegion, { enabled: mirror, dryRun });
+    },
+});
+
+/**
+ * Hooks of a migration between the Garmin accounts: the retry queue and the migrate checkpoint
+ * Pages through the selection of the run and saves the checkpoint after every activity,
+ * the run is completed only when it was not stopped.
+ * @param run returned by startMigrateRun
+ */
+export const createGarminMigrateHooks = (
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    sourceClient: GarminClientType,
+    destClient: GarminClientType,
+    run: { selection: ActivitySelection; checkpoint: MigrateCheckpoint },
+): SyncHooks => {
+    // list index of every listed activity, the checkpoint resumes after it
+    const indexes = new Map<Record<string, any>, number>();
+    return {
+        ...createRetryQueueHooks(sourceRegion, destRegion, sourceClient, destClient),
+        listActivities: async function* () {
+            for await (const page of iterateActivityPages(sourceClient, run.selection)) {
+                page.forEach(({ act, index }) => indexes.set(act, index));
+                yield page.map(({ act }) => act);
+            }
+        },
+        afterActivity: act => advanceMigrateCheckpoint(run.checkpoint, act, indexes.get(act)! + 1),
+        afterSync: async (dryRun, stopped) => {
+            if (!dryRun && !stopped) {
+                await completeMigrateCheckpoint(run.checkpoint);
+            }
+        },
+    };
+};
+
+/**
+ * One-way sync between the Garmin accounts, syncBetweenEndpoints with createGarminSyncHooks
+ * @param options dryRun: 只输出同步计划，不下载、上传，也不添加 AI Insights
+ *                mirror: 同步源账号中已同步活动的删除、改名及描述修改，未指定时使用 GARMIN_MIRROR_CHANGES
+ */
+export const syncGarminAccounts = async (
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    options: { dryRun?: boolean; mirror?: boolean } = {},
+): Promise<void> => {
+    const sourceClient = await loginGarmin(sourceRegion);
+    const destClient = await loginGarmin(destRegion);
+    await syncBetweenEndpoints(createGarminEndpoint(sourceRegion, sourceClient), createGarminEndpoint(destRegion, destClient), {
+        dryRun: options.dryRun,
+        hooks: createGarminSyncHooks(sourceRegion, destRegion, sourceClient, destClient, options.mirror),
+    });
+};
+
+/**
+ * Migrate the history of one Garmin account to the other, syncBetweenEndpoints with createGarminMigrateHooks
+ * @param count activities to migrate when GARMIN_MIGRATE_NUM is not set
+ * @param options reset / since / until / dryRun，见 MigrateOptions
+ */
+export const migrateGarminAccounts = async (
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    count = 200,
+    options: MigrateOptions = {},
+): Promise<void> => {
+    const { migrateStart, migrateNum } = getConfig().garmin;
+    const sourceClient = await loginGarmin(sourceRegion);
+    const destClient = await loginGarmin(destRegion);
+    const run = await startMigrateRun(sourceRegion, destRegion, migrateStart, migrateNum ?? count, options);
+    if (!run) {
+        return;
+    }
+    await syncBetweenEndpoints(createGarminEndpoint(sourceRegion, sourceClient), createGarminEndpoint(destRegion, destClient), {
+        mode: 'migrate',
+        dryRun: options.dryRun,
+        hooks: createGarminMigrateHooks(sourceRegion, destRegion, sourceClient, destClient, run),
+    });
+};
@@ -0,0 +1,76 @@
+import { SyncService } from './type';
+
+/**
+ * Dry run plan of a sync or migration
+ * Lists what a real run would do, built without downloading, uploading or annotating anything
+ */
+
+// RETRY: a failed transfer from the retry queue that is due for another attempt
+export type SyncPlanAction = 'UPLOAD' | 'SKIP_DUPLICATE' | 'RETRY';
+
+export interface SyncPlanItem {
+    action: SyncPlanAction;
+    activityId: string;
+    activityName: string;
+    startTimeLocal: string;
+    typeKey?: string;
+    // UPLOAD: the AI insight would be generated and added to the source activity
+    annotate?: boolean;
+    // SKIP_DUPLICATE: the matching activity on the destination account
+    existingActivityId?: string;
+    // RETRY: failed attempts so far and the last error
+    attempts?: number;
+    lastError?: string;
+}
+
+export interface SyncPlan {
+    mode: 'sync' | 'migrate';
+    sourceRegion: SyncService;
+    destRegion: SyncService;
+    items: SyncPlanItem[];
+}
+
+export const createSyncPlan = (mode: SyncPlan['mode'], sourceRegion: SyncService, destRegion: SyncService): SyncPlan => ({
+    mode,
+    sourceRegion,
+    destRegion,
+    items: [],
+});
+
+export const addSyncPlanItem = (
+    plan: SyncPlan,
+    action: SyncPlanAction,
+    act: Record<string, any>,
+    extra: Pick<SyncPlanItem, 'annotate' | 'existingActivityId' | 'attempts' | 'lastError'> = {},
+): void => {
+    plan.items.push({
+        action,
+        activityId: String(act.activityId),
+        activityName: act.activityName,
+        startTimeLocal: act.startTimeLocal,
+        typeKey: act.activityType?.typeKey,
+        ...extra,
+    });
+};
+
+/**
+ * Print the plan as one line per activity followed by the JSON plan
+ */
+export const printSyncPlan = (plan: SyncPlan): void => {
+    const uploads = plan.items.filter(item => item.action === 'UPLOAD');
+    const duplicates = plan.items.filter(item => item.action === 'SKIP_DUPLICATE');
+    const retries = plan.items.filter(item => item.action === 'RETRY');
+    console.log('========================================');
+    console.log(`Dry run: ${plan.mode} ${plan.sourceRegion} -> ${plan.destRegion}`);
+    console.log('========================================');
+    for (const item of plan.items) {
+        const detail = item.action === 'UPLOAD'
+            ? `download + upload${item.annotate ? ' + AI insight' : ''}`
+            : item.action === 'RETRY'
+                ? `attempt ${(item.attempts ?? 0) + 1}, last error ${item.lastError ?? 'unknown'}`
+                : `already present as ${item.existingActivityId}`;
+        console.log(`${item.action.padEnd(14)} ${item.startTimeLocal}  ${item.activityId}  【 ${item.activityName} 】 (${item.typeKey ?? 'unknown'}): ${detail}`);
+    }
+    console.log(`To retry: ${retries.length}, to upload: ${uploads.length}, already present: ${duplicates.length}`);
+    console.log(JSON.stringify(plan, null, 2));
+};
@@ -0,0 +1,103 @@
+import { UploadResult, UploadStatus } from './garmin_common';
+import { SyncService } from './type';
+import { emitWebhookEvent, toWebhookActivity } from './webhook';
+
+const core = require('@actions/core');
+
+/**
+ * Per-run report of a sync or migration
+ * Collects the result of every processed activity and fails the run when any transfer really failed
+ */
+
+// DOWNLOAD_FAILED: the original file could not be downloaded from the source region
+export type SyncReportStatus = UploadStatus | 'DOWNLOAD_FAILED';
+
+export interface SyncReportItem {
+    activityId: string;
+    activityName: string;
+    startTimeLocal: string;
+    status: SyncReportStatus;
+    destActivityId?: string;
+    message?: string;
+}
+
+export interface SyncReport {
+    mode: 'sync' | 'migrate';
+    sourceRegion: SyncService;
+    destRegion: SyncService;
+    items: SyncReportItem[];
+}
+
+export const createSyncReport = (mode: SyncReport['mode'], sourceRegion: SyncService, destRegion: SyncService): SyncReport => ({
+    mode,
+    sourceRegion,
+    destRegion,
+    items: [],
+});
+
+/**
+ * Emits activity.synced or activity.sync_failed to the webhooks, duplicates are not sent
+ * @param result upload result, undefined when the download failed
+ * @param error the download error
+ */
+export const addSyncReportItem = (
+    report: SyncReport,
+    act: Record<string, any>,
+    result: UploadResult | undefined,
+    error?: any,
+): void => {
+    const item: SyncReportItem = {
+        activityId: String(act.activityId),
+        activityName: act.activityName,
+        startTimeLocal: act.startTimeLocal,
+        status: result?.status ?? 'DOWNLOAD_FAILED',
+        destActivityId: result?.activityId,
+        message: result?.message ?? error?.message ?? (error ? String(error) : undefined),
+    };
+    report.items.push(item);
+    if (item.status === 'DUPLICATE') {
+        return;
+    }
+    emitWebhookEvent(item.status === 'CREATED' ? 'activity.synced' : 'activity.sync_failed', {
+        mode: report.mode,
+        source: report.sourceRegion,
+        dest: report.destRegion,
+        status: item.status,
+        destActivityId: item.destActivityId,
+        message: item.status === 'CREATED' ? undefined : item.message,
+        activity: toWebhookActivity(act),
+    });
+};
+
+export const getSyncReportFailures = (report: SyncReport): SyncReportItem[] => {
+    return report.items.filter(item => item.status !== 'CREATED' && item.status !== 'DUPLICATE');
+};
+
+/**
+ * Print the report and call core.setFailed (non-zero exit code) if any activity failed
+ */
+export const finishSyncReport = (report: SyncReport): void => {
+    const countBy = (status: SyncReportStatus) => report.items.filter(item => item.status === status).length;
+    const failures = getSyncReportFailures(report);
+
+    console.log('========================================');
+    console.log(`Report: ${report.mode} ${report.sourceRegion} -> ${report.destRegion}`);
+    console.log('========================================');
+    console.log(`Created: ${countBy('CREATED')}`);
+    console.log(`Duplicate: ${countBy('DUPLICATE')}`);
+    if (failures.length > 0) {
+        console.log(`Rejected: ${countBy('REJECTED')}`);
+        console.log(`Auth failed: ${countBy('AUTH_FAILED')}`);
+        console.log(`Rate limited: ${countBy('RATE_LIMITED')}`);
+        console.log(`Download failed: ${countBy('DOWNLOAD_FAILED')}`);
+        console.log(`Failed: ${countBy('FAILED')}`);
+        for (const item of failures) {
+            console.log(`❌ ${item.status} ${item.startTimeLocal}  ${item.activityId}  【 ${item.activityName} 】: ${item.message ?? ''}`);
+        }
+    }
+    console.log('========================================');
+
+    if (failures.length > 0) {
+        core.setFailed(`${failures.length} of ${report.items.length} activities failed to ${report.mode} from ${report.sourceRegion} to ${report.destRegion}`);
+    }
+};
@@ -1,3 +1,6 @@
 const { GarminConnect: GarminConnect } = require('@gooin/garmin-connect');
 
 export type GarminClientType = typeof GarminConnect
+export type GarminRegion = 'CN' | 'GLOBAL';
+// services the sync ledger records copies of activities between, ARCHIVE is the local archive
+export type SyncService = GarminRegion | 'STRAVA' | 'ARCHIVE';
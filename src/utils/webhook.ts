@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import _ from 'lodash';
+import { getConfig } from './config';
+import { GarminActivity } from './ai_insights';
+
+/**
+ * Outgoing webhooks
+ * Every event is POSTed as JSON to the WEBHOOK_URLS, so dashboards and chat bots can react to new activities:
+ *   { id, event, createdAt, profile, data }
+ * With WEBHOOK_SECRET set the request carries X-Dailysync-Signature: sha256=<hex>, the HMAC-SHA256 of
+ * `${X-Dailysync-Timestamp}.${body}` with the secret, receivers should recompute it and check the timestamp is recent.
+ * Deliveries run in the background and never fail the sync, network errors, 5xx and 429 responses are retried
+ * with exponential backoff from WEBHOOK_RETRY_DELAY up to WEBHOOK_MAX_ATTEMPTS; the command waits for them before it exits.
+ */
+
+export type WebhookEvent = 'activity.synced' | 'activity.sync_failed' | 'insight.generated' | 'migration.completed';
+
+const SUMMARY_FIELDS = [
+    'activityName', 'startTimeLocal', 'distance', 'duration', 'movingDuration', 'averageSpeed', 'maxSpeed',
+    'averageHR', 'maxHR', 'calories', 'elevationGain', 'aerobicTrainingEffect', 'anaerobicTrainingEffect',
+    'trainingEffectLabel', 'vO2MaxValue', 'activityTrainingLoad',
+] as const;
+
+export type WebhookActivitySummary = Partial<Pick<GarminActivity, typeof SUMMARY_FIELDS[number]>> & {
+    activityId: string;
+    typeKey?: string;
+};
+
+export interface WebhookPayload {
+    // delivery id, the same for every attempt so receivers can drop repeats
+    id: string;
+    event: WebhookEvent;
+    createdAt: string;
+    profile: string;
+    data: Record<string, any>;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+const pendingDeliveries = new Set<Promise<void>>();
+
+/**
+ * Activity summary fields of a listed Garmin activity, fields the activity does not have are left out
+ */
+export const toWebhookActivity = (act: Record<string, any>): WebhookActivitySummary => ({
+    activityId: String(act.activityId),
+    typeKey: act.activityType?.typeKey,
+    ..._.pick(act, SUMMARY_FIELDS),
+});
+
+export const signWebhookPayload = (secret: string, timestamp: string, body: string): string => {
+    return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+};
+
+const splitList = (value: string): string[] => value.split(',').map(item => item.trim()).filter(Boolean);
+
+// the host only, webhook URLs often contain a token
+const describeUrl = (url: string): string => {
+    try {
+        return new URL(url).host;
+    } catch (e) {
+        return 'invalid URL';
+    }
+};
+
+const isRetryable = (error: any): boolean => {
+    const status = error?.response?.status;
+    return !status || status >= 500 || status === 429;
+};
+
+const deliver = async (url: string, payload: WebhookPayload, secret: string, maxAttempts: number, retryDelay: number): Promise<void> => {
+    const body = JSON.stringify(payload);
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'User-Agent': 'dailysync-webhook',
+            'X-Dailysync-Event': payload.event,
+            'X-Dailysync-Delivery': payload.id,
+            'X-Dailysync-Timestamp': timestamp,
+        };
+        if (secret) {
+            headers['X-Dailysync-Signature'] = signWebhookPayload(secret, timestamp, body);
+        }
+        try {
+            await axios.post(url, body, { headers, timeout: REQUEST_TIMEOUT_MS });
+            return;
+        } catch (e: any) {
+            const reason = e?.response?.status ? `HTTP ${e.response.status}` : e?.message ?? String(e);
+            if (!isRetryable(e) || attempt === maxAttempts) {
+                console.error(`Webhook: ${payload.event} to ${describeUrl(url)} failed (${reason}), attempt ${attempt} of ${maxAttempts}, giving up`);
+                return;
+            }
+            const delay = retryDelay * 2 ** (attempt - 1);
+            console.log(`Webhook: ${payload.event} to ${describeUrl(url)} failed (${reason}), retrying in ${delay / 1000}s`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+};
+
+/**
+ * Send an event to every configured webhook in the background
+ * Does nothing without WEBHOOK_URLS or when WEBHOOK_EVENTS leaves the event out.
+ */
+export const emitWebhookEvent = (event: WebhookEvent, data: Record<string, any>): void => {
+    // read now, the deliveries may outlive the profile
+    const { profile, webhook } = getConfig();
+    const urls = splitList(webhook.urls);
+    const events = splitList(webhook.events);
+    if (urls.length === 0 || (events.length > 0 && !events.includes(event))) {
+        return;
+    }
+    const payload: WebhookPayload = {
+        id: crypto.randomBytes(16).toString('hex'),
+        event,
+        createdAt: new Date().toISOString(),
+        profile,
+        data,
+    };
+    for (const url of urls) {
+        const delivery = deliver(url, payload, webhook.secret, webhook.maxAttempts, webhook.retryDelay);
+        pendingDeliveries.add(delivery);
+        delivery.finally(() => pendingDeliveries.delete(delivery));
+    }
+};
+
+/**
+ * Wait until every emitted event is delivered or given up
+ */
+export const waitForWebhookDeliveries = async (): Promise<void> => {
+    while (pendingDeliveries.size > 0) {
+        await Promise.all([...pendingDeliveries]);
+    }
+};
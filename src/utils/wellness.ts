@@ -0,0 +1,335 @@
+import _ from 'lodash';
+import { getGaminCNClient } from './garmin_cn';
+import { getGaminGlobalClient } from './garmin_global';
+import { getErrorStatusCode } from './garmin_common';
+import {
+    getWellnessCheckpoint,
+    initWellnessCheckpointTable,
+    initWellnessTable,
+    saveWellnessCheckpoint,
+    saveWellnessEntry,
+    WellnessStatus,
+} from './sqlite';
+import { GarminClientType, GarminRegion } from './type';
+
+const core = require('@actions/core');
+
+/**
+ * Sync of daily wellness data (steps, sleep, stress, HRV, resting heart rate, weight, hydration) between regions
+ * Health data recorded by a CN watch only reaches the CN account. Garmin Connect only takes weigh-ins and
+ * hydration from outside a device, so those are written to the destination (without repeating what it already has);
+ * every metric read, the ones the destination can not take included, is kept in the wellness_daily table.
+ * The last day synced without a failure is kept per direction, automatic runs continue from the day after it.
+ */
+
+export type WellnessMetric = 'steps' | 'sleep' | 'stress' | 'hrv' | 'restingHeartRate' | 'weight' | 'hydration';
+
+export const WELLNESS_METRICS: WellnessMetric[] = ['steps', 'sleep', 'stress', 'hrv', 'restingHeartRate', 'weight', 'hydration'];
+
+interface WellnessReading {
+    // main number of the metric, see WELLNESS_UNITS
+    value: number;
+    data: Record<string, any>;
+}
+
+type DailyWellness = Partial<Record<WellnessMetric, WellnessReading>>;
+
+export const WELLNESS_UNITS: Record<WellnessMetric, string> = {
+    steps: 'steps',
+    sleep: 's',
+    stress: 'avg',
+    hrv: 'ms',
+    restingHeartRate: 'bpm',
+    weight: 'kg',
+    hydration: 'ml',
+};
+
+export interface WellnessSyncOptions {
+    // inclusive YYYY-MM-DD dates
+    since: string;
+    until: string;
+    // only print what was read, nothing is written or saved
+    dryRun?: boolean;
+}
+
+export interface WellnessSyncSummary {
+    days: number;
+    counts: Record<WellnessStatus, number>;
+    // stopped at an expired login or rate limit, the next automatic run continues from the day it stopped at
+    stopped?: boolean;
+}
+
+export interface WellnessClients {
+    // already logged in clients, the regions are logged in otherwise
+    source?: GarminClientType;
+    dest?: GarminClientType;
+}
+
+type WellnessWriter = (client: GarminClientType, date: string, reading: WellnessReading) => Promise<'WRITTEN' | 'PRESENT'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// failures every following request would hit too
+const isFatalError = (error: any): boolean => [401, 403, 429].includes(getErrorStatusCode(error));
+
+// fields that are set, Garmin sends null for what the device did not record
+const pickSet = (source: Record<string, any>, fields: string[]): Record<string, any> => {
+    return _.pickBy(_.pick(source, fields), value => value !== null && value !== undefined);
+};
+
+/**
+ * @returns undefined when the account has nothing for the day
+ */
+const getWellnessData = async (client: GarminClientType, url: string, params?: Record<string, any>): Promise<any> => {
+    try {
+        return await client.client.get(client.url.GC_API + url, params ? { params } : undefined);
+    } catch (e) {
+        if (getErrorStatusCode(e) === 404) {
+            return undefined;
+        }
+        throw e;
+    }
+};
+
+/**
+ * Today in the local time zone, YYYY-MM-DD
+ */
+export const getLocalToday = (): string => new Date(Date.now() - new Date().getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+
+export const addDays = (date: string, days: number): string => new Date(new Date(date).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Every day from since to until, inclusive
+ */
+export const getDateRange = (since: string, until: string): string[] => {
+    const dates: string[] = [];
+    for (let date = since; date <= until; date = addDays(date, 1)) {
+        dates.push(date);
+    }
+    return dates;
+};
+
+/**
+ * Range of an automatic sync: the last days up to until, reaching back to the day after the last completed day
+ * if an earlier run stopped before the start of that range
+ */
+export const getWellnessSyncRange = async (
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    days: number,
+    until = getLocalToday(),
+): Promise<{ since: string; until: string }> => {
+    await initWellnessCheckpointTable();
+    const checkpoint = await getWellnessCheckpoint(sourceRegion, destRegion);
+    const since = addDays(until, 1 - days);
+    const resumeDate = checkpoint ? addDays(checkpoint, 1) : since;
+    return { since: resumeDate < since ? resumeDate : since, until };
+};
+
+/**
+ * Read the wellness data of one day, metrics the account has nothing for are left out
+ * A metric failing to read is skipped, only an expired login or rate limit is thrown.
+ * @param displayName display name of the account, part of some of the URLs
+ */
+const readDailyWellness = async (client: GarminClientType, displayName: string, date: string): Promise<DailyWellness> => {
+    const read = async (what: string, url: string, params?: Record<string, any>) => {
+        try {
+            return await getWellnessData(client, url, params);
+        } catch (e: any) {
+            if (isFatalError(e)) {
+                throw e;
+            }
+            console.log(`Wellness: reading ${what} of ${date} failed (status: ${getErrorStatusCode(e) || 'N/A'}): ${e?.message ?? e}, skipped`);
+            return undefined;
+        }
+    };
+    const day: DailyWellness = {};
+
+    const summary = await read('daily summary', `/usersummary-service/usersummary/daily/${displayName}`, { calendarDate: date });
+    if (summary?.totalSteps) {
+        day.steps = { value: summary.totalSteps, data: pickSet(summary, ['totalSteps', 'dailyStepGoal', 'totalDistanceMeters']) };
+    }
+    // negative levels mean not enough data
+    if (summary?.averageStressLevel >= 0) {
+        day.stress = {
+            value: summary.averageStressLevel,
+            data: pickSet(summary, ['averageStressLevel', 'maxStressLevel', 'restStressDuration', 'lowStressDuration', 'mediumStressDuration', 'highStressDuration']),
+        };
+    }
+    if (summary?.restingHeartRate) {
+        day.restingHeartRate = {
+            value: summary.restingHeartRate,
+            data: pickSet(summary, ['restingHeartRate', 'lastSevenDaysAvgRestingHeartRate', 'minHeartRate', 'maxHeartRate']),
+        };
+    }
+
+    const sleep = (await read('sleep', `/wellness-service/wellness/dailySleepData/${displayName}`, { date, nonSleepBufferMinutes: 60 }))?.dailySleepDTO;
+    if (sleep?.sleepTimeSeconds) {
+        day.sleep = {
+            value: sleep.sleepTimeSeconds,
+            data: {
+                ...pickSet(sleep, ['sleepTimeSeconds', 'deepSleepSeconds', 'lightSleepSeconds', 'remSleepSeconds', 'awakeSleepSeconds', 'sleepStartTimestampGMT', 'sleepEndTimestampGMT']),
+                ...(sleep.sleepScores?.overall?.value ? { sleepScore: sleep.sleepScores.overall.value } : {}),
+            },
+        };
+    }
+
+    const hrv = (await read('HRV', `/hrv-service/hrv/${date}`))?.hrvSummary;
+    if (hrv?.lastNightAvg) {
+        day.hrv = { value: hrv.lastNightAvg, data: pickSet(hrv, ['lastNightAvg', 'lastNight5MinHigh', 'weeklyAvg', 'status']) };
+    }
+
+    const weighIns: Record<string, any>[] = (await read('weight', `/weight-service/weight/dayview/${date}`))?.dateWeightList ?? [];
+    if (weighIns.length > 0) {
+        day.weight = {
+            // grams
+            value: _.last(weighIns)!.weight / 1000,
+            data: { weighIns: weighIns.map(w => pickSet(w, ['date', 'timestampGMT', 'weight', 'bmi', 'bodyFat', 'bodyWater', 'boneMass', 'muscleMass'])) },
+        };
+    }
+
+    const hydration = await read('hydration', `/usersummary-service/usersummary/hydration/daily/${date}`);
+    if (hydration?.valueInML > 0) {
+        day.hydration = { value: hydration.valueInML, data: pickSet(hydration, ['valueInML', 'goalInML', 'lastEntryTimestampLocal']) };
+    }
+    return day;
+};
+
+// Garmin timestamp format of weigh-ins, 'YYYY-MM-DDTHH:mm:ss.SSS'
+const toGarminTimestamp = (ms: number): string => new Date(ms).toISOString().slice(0, 23);
+
+/**
+ * Metrics Garmin Connect takes from outside a device, each adds only what the destination does not have yet
+ */
+const WELLNESS_WRITERS: Partial<Record<WellnessMetric, WellnessWriter>> = {
+    weight: async (client, date, reading) => {
+        const existing: Record<string, any>[] = (await getWellnessData(client, `/weight-service/weight/dayview/${date}`))?.dateWeightList ?? [];
+        // a weigh-in within a minute of one the destination has is the same one
+        const missing = (reading.data.weighIns as Record<string, any>[])
+            .filter(w => !existing.some(e => Math.abs(Number(e.timestampGMT) - Number(w.timestampGMT)) < 60000));
+        for (const w of missing) {
+            await client.client.post(client.url.GC_API + '/weight-service/user-weight', {
+                dateTimestamp: toGarminTimestamp(w.date),
+                gmtTimestamp: toGarminTimestamp(w.timestampGMT),
+                unitKey: 'kg',
+                sourceType: 'MANUAL',
+                value: w.weight / 1000,
+            });
+        }
+        return missing.length > 0 ? 'WRITTEN' : 'PRESENT';
+    },
+    hydration: async (client, date, reading) => {
+        const existing = await getWellnessData(client, `/usersummary-service/usersummary/hydration/daily/${date}`);
+        // the log adds an intake to the day, so only the difference is logged
+        const missingML = reading.value - (existing?.valueInML ?? 0);
+        if (missingML <= 0) {
+            return 'PRESENT';
+        }
+        await client.client.post(client.url.GC_API + '/usersummary-service/usersummary/hydration/log', {
+            calendarDate: date,
+            timestampLocal: reading.data.lastEntryTimestampLocal ?? `${date}T12:00:00.000`,
+            valueInML: missingML,
+        }, {
+            headers: {
+                'X-Http-Method-Override': 'PUT',
+            }
+        });
+        return 'WRITTEN';
+    },
+};
+
+const getClient = (region: GarminRegion): Promise<GarminClientType> => region === 'GLOBAL' ? getGaminGlobalClient() : getGaminCNClient();
+
+/**
+ * Sync the daily wellness data of a date range from sourceRegion to destRegion
+ * Prints a summary and calls core.setFailed (non-zero exit code) if a metric failed to write or the sync stopped.
+ * The checkpoint stays before the first day a metric failed to write, so the next automatic run retries from there.
+ */
+export const syncWellness = async (
+    sourceRegion: GarminRegion,
+    destRegion: GarminRegion,
+    options: WellnessSyncOptions,
+    clients: WellnessClients = {},
+): Promise<WellnessSyncSummary> => {
+    const dates = getDateRange(options.since, options.until);
+    const summary: WellnessSyncSummary = { days: dates.length, counts: { WRITTEN: 0, PRESENT: 0, LOCAL: 0, FAILED: 0 } };
+    const sourceClient = clients.source ?? await getClient(sourceRegion);
+    const destClient = options.dryRun ? undefined : clients.dest ?? await getClient(destRegion);
+    let checkpoint: string | undefined;
+    if (!options.dryRun) {
+        await initWellnessTable();
+        await initWellnessCheckpointTable();
+        checkpoint = await getWellnessCheckpoint(sourceRegion, destRegion);
+    }
+    const { displayName } = await sourceClient.getUserProfile();
+    console.log(`Wellness: ${sourceRegion} -> ${destRegion}, ${options.since} to ${options.until}${options.dryRun ? ' (dry run)' : ''}`);
+
+    for (const date of dates) {
+        let day: DailyWellness;
+        try {
+            day = await readDailyWellness(sourceClient, displayName, date);
+        } catch (e: any) {
+            console.log(`Wellness: reading ${date} from ${sourceRegion} failed (status: ${getErrorStatusCode(e)}), stopping, the next sync continues from ${date}`);
+            summary.stopped = true;
+            break;
+        }
+        const results: string[] = [];
+        let failed = false;
+        let fatalError = false;
+        for (const metric of WELLNESS_METRICS) {
+            const reading = day[metric];
+            if (!reading) {
+                continue;
+            }
+            const writer = WELLNESS_WRITERS[metric];
+            let status: WellnessStatus = 'LOCAL';
+            let message: string | undefined;
+            if (options.dryRun) {
+                results.push(`${metric} ${_.round(reading.value, 1)} ${WELLNESS_UNITS[metric]}${writer ? ' (write)' : ''}`);
+                continue;
+            }
+            if (writer) {
+                try {
+                    status = await writer(destClient!, date, reading);
+                } catch (e: any) {
+                    status = 'FAILED';
+                    failed = true;
+                    message = `status: ${getErrorStatusCode(e) || 'N/A'}, ${e?.message ?? e}`;
+                    fatalError = fatalError || isFatalError(e);
+                }
+            }
+            await saveWellnessEntry({
+                sourceRegion,
+                calendarDate: date,
+                metric,
+                value: reading.value,
+                data: JSON.stringify(reading.data),
+                destRegion,
+                status,
+                message,
+            });
+            summary.counts[status]++;
+            results.push(`${metric} ${_.round(reading.value, 1)} ${WELLNESS_UNITS[metric]} ${status}${message ? ` (${message})` : ''}`);
+        }
+        console.log(`${date}: ${results.length > 0 ? results.join(', ') : 'no data'}`);
+        if (fatalError) {
+            console.log(`Wellness: writing to ${destRegion} failed, stopping, the next sync continues from ${date}`);
+            summary.stopped = true;
+            break;
+        }
+        // only moves on over consecutive days without a failed metric, a range after a gap or failure leaves it for the next run
+        if (!options.dryRun && !failed && (!checkpoint || date === addDays(checkpoint, 1))) {
+            checkpoint = date;
+            await saveWellnessCheckpoint(sourceRegion, destRegion, date);
+        }
+    }
+
+    if (!options.dryRun) {
+        const { WRITTEN, PRESENT, LOCAL, FAILED } = summary.counts;
+        console.log(`Wellness: ${WRITTEN} written to ${destRegion}, ${PRESENT} already there, ${LOCAL} kept locally only, ${FAILED} failed`);
+    }
+    if (summary.counts.FAILED > 0 || summary.stopped) {
+        core.setFailed(`Wellness sync ${sourceRegion} -> ${destRegion} ${summary.stopped ? 'stopped' : 'failed'}, ${summary.counts.FAILED} metrics failed to write`);
+    }
+    return summary;
+};